@@ -0,0 +1,106 @@
+// Keeps the app shell available offline. The models run on the device, so
+// once the shell is cached the app works without a network.
+
+// Defines self.PRECACHE: the build's version and its hashed JS and CSS
+// files, which the page loaded before this worker was installed
+importScripts("/precache-manifest.js");
+
+// A new build gets a new cache, dropping what older versions cached
+const CACHE = `app-shell-${self.PRECACHE.version}`;
+
+const SHELL = [
+  "/",
+  "/index.html",
+  "/manifest.webmanifest",
+  "/icon.svg",
+  "/icon-192.png",
+  "/icon-512.png",
+  "/favicon.ico",
+];
+
+// Cross-origin files cached like the app's own, e.g. the web font
+const CACHED_HOSTS = ["fonts.googleapis.com", "fonts.gstatic.com"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll([...SHELL, ...self.PRECACHE.assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response);
+  }
+};
+
+// Pages come from the network when it's there so new releases show up, and
+// from the cached shell when it isn't
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    await putInCache("/index.html", response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match("/index.html");
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Vite fingerprints bundle file names, so a cached file never goes stale
+const HASHED = new Set(self.PRECACHE.assets);
+
+const handleHashedAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  await putInCache(request, response.clone());
+  return response;
+};
+
+// Files without a hash in their name can change between releases, so the
+// network wins and the cache only covers being offline
+const handleAsset = async (request) => {
+  try {
+    const response = await fetch(request);
+    await putInCache(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (request.mode === "navigate" && sameOrigin) {
+    event.respondWith(handleNavigation(request));
+  } else if (sameOrigin && HASHED.has(url.pathname)) {
+    event.respondWith(handleHashedAsset(request));
+  } else if (sameOrigin || CACHED_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleAsset(request));
+  }
+  // Anything else, such as an HTTP model backend, goes straight to the network
+});
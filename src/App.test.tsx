@@ -0,0 +1,264 @@
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it } from "vitest";
+import App from "./App";
+import { installMockAI, type MockAI, type MockAIConfig } from "./lib/ai/mock";
+
+const SPANISH = "El gato de la casa es muy bonito y la casa es grande.";
+const ENGLISH =
+  "The first sentence is about the weather. The second one is about the city. " +
+  "The third is about the people who live in it. The fourth sentence is not needed in a summary.";
+
+let mock: MockAI | undefined;
+
+afterEach(() => {
+  mock?.uninstall();
+  mock = undefined;
+});
+
+const renderApp = async (config: MockAIConfig = {}) => {
+  mock = installMockAI(config);
+  render(<App />);
+  const input = await screen.findByLabelText("Message input");
+  await waitFor(() => expect(input).toBeEnabled());
+  return userEvent.setup();
+};
+
+const sendMessage = async (
+  user: ReturnType<typeof userEvent.setup>,
+  text: string
+) => {
+  const input = screen.getByLabelText("Message input");
+  await user.click(input);
+  await user.paste(text);
+  await user.keyboard("{Enter}");
+  // The textarea holds the text too until the message is added
+  await waitFor(() => expect(input).toHaveValue(""));
+};
+
+describe("App", () => {
+  it("shows setup instructions when no AI API is available", async () => {
+    mock = installMockAI({
+      availability: {
+        languageDetector: "no",
+        translator: "no",
+        summarizer: "no",
+        rewriter: "no",
+        writer: "no",
+        languageModel: "no",
+      },
+    });
+    render(<App />);
+
+    expect(
+      await screen.findByText("Chrome AI APIs Not Available")
+    ).toBeInTheDocument();
+    expect(screen.getByText("chrome://flags")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Message input")).not.toBeInTheDocument();
+  });
+
+  it("sends a message and shows the detected language", async () => {
+    const user = await renderApp();
+
+    await sendMessage(user, SPANISH);
+
+    expect(await screen.findByText(SPANISH)).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Change source language" })
+    ).toHaveTextContent("Detected: Spanish");
+    expect(screen.getByLabelText("Message input")).toHaveValue("");
+  });
+
+  it("translates a message to the picked language", async () => {
+    const user = await renderApp();
+    await sendMessage(user, SPANISH);
+    await screen.findByText(SPANISH);
+
+    await user.click(
+      screen.getByRole("button", { name: "Select language for translation" })
+    );
+    await user.click(await screen.findByRole("option", { name: /French/ }));
+
+    expect(await screen.findByText(`[fr] ${SPANISH}`)).toBeInTheDocument();
+    expect(screen.getByText("French Translation")).toBeInTheDocument();
+  });
+
+  it("reuses an earlier translation of the same text", async () => {
+    const user = await renderApp();
+    await sendMessage(user, SPANISH);
+    await sendMessage(user, SPANISH);
+    await waitFor(() => expect(screen.getAllByText(SPANISH)).toHaveLength(2));
+
+    const translateTo = async (index: number) => {
+      await user.click(
+        screen.getAllByRole("button", {
+          name: "Select language for translation",
+        })[index]
+      );
+      await user.click(await screen.findByRole("option", { name: /French/ }));
+    };
+    await translateTo(0);
+    await screen.findByText(`[fr] ${SPANISH}`);
+    await translateTo(1);
+
+    await waitFor(() =>
+      expect(screen.getAllByText(`[fr] ${SPANISH}`)).toHaveLength(2)
+    );
+    expect(await screen.findByText(/From memory/)).toBeInTheDocument();
+    expect(
+      mock!.calls.filter((call) => call.api === "translator")
+    ).toHaveLength(1);
+  });
+
+  it("runs slash commands from the composer", async () => {
+    const user = await renderApp();
+
+    await sendMessage(user, `/translate fr,de ${SPANISH}`);
+    expect(await screen.findByText(`[fr] ${SPANISH}`)).toBeInTheDocument();
+    expect(await screen.findByText(`[de] ${SPANISH}`)).toBeInTheDocument();
+
+    await sendMessage(user, "/translate it");
+    expect(await screen.findByText(`[it] ${SPANISH}`)).toBeInTheDocument();
+  });
+
+  it("autocompletes commands", async () => {
+    const user = await renderApp();
+    const input = screen.getByLabelText("Message input");
+
+    await user.type(input, "/tr");
+    expect(
+      screen.getByRole("option", { name: /\/translate es,fr/ })
+    ).toBeInTheDocument();
+    await user.keyboard("{Tab}");
+    expect(input).toHaveValue("/translate ");
+  });
+
+  it("summarizes long messages", async () => {
+    const user = await renderApp();
+    await sendMessage(user, ENGLISH);
+    await screen.findByText(ENGLISH);
+
+    await user.click(screen.getByRole("button", { name: "Summarize text" }));
+
+    const summary = (await screen.findByText("AI Summary")).closest("div")!
+      .parentElement!;
+    expect(
+      await within(summary).findByText(
+        "The first sentence is about the weather."
+      )
+    ).toBeInTheDocument();
+    expect(
+      within(summary).queryByText(
+        "The fourth sentence is not needed in a summary."
+      )
+    ).not.toBeInTheDocument();
+  });
+
+  it("switches the interface language", async () => {
+    const user = await renderApp();
+
+    await user.selectOptions(screen.getByLabelText("Interface language"), "es");
+
+    expect(
+      screen.getByRole("heading", { name: "Procesador de texto con IA" })
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText("Campo de mensaje")).toBeInTheDocument();
+    expect(localStorage.getItem("locale")).toBe("es");
+    expect(document.documentElement.lang).toBe("es");
+  });
+
+  it("keeps working without the APIs that are missing", async () => {
+    const user = await renderApp({ availability: { summarizer: "no" } });
+
+    expect(screen.getByText("Limited AI features")).toBeInTheDocument();
+    await sendMessage(user, ENGLISH);
+    await screen.findByText(ENGLISH);
+
+    expect(
+      screen.getByRole("button", { name: "Summarize text" })
+    ).toBeDisabled();
+  });
+
+  it("rewrites a message and answers questions about it", async () => {
+    const user = await renderApp();
+
+    await sendMessage(user, ENGLISH);
+    await user.click(await screen.findByRole("button", { name: "Shorter" }));
+    expect(
+      await screen.findByText("The first sentence is about the weather.")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Shorter rewrite")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Ask a question" }));
+    await user.type(
+      screen.getByLabelText("Question about this text"),
+      "What is it about?{Enter}"
+    );
+    expect(
+      await screen.findByText(
+        "What is it about? The first sentence is about the weather."
+      )
+    ).toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole("button", { name: "Remove Shorter rewrite" })
+    );
+    expect(screen.queryByText("Shorter rewrite")).not.toBeInTheDocument();
+  });
+
+  it("shows a failed translation on its card and retries it", async () => {
+    const user = await renderApp({
+      failures: {
+        translator: new DOMException(
+          "Input is too long.",
+          "QuotaExceededError"
+        ),
+      },
+    });
+    await sendMessage(user, SPANISH);
+    await screen.findByText(SPANISH);
+
+    await user.click(
+      screen.getByRole("button", { name: "Select language for translation" })
+    );
+    await user.click(await screen.findByRole("option", { name: /French/ }));
+
+    const notice = await screen.findByRole("alert");
+    expect(notice).toHaveTextContent("Translation to French failed");
+    expect(notice).toHaveTextContent("Input too long");
+
+    mock!.config.failures = {};
+    await user.click(within(notice).getByRole("button", { name: /Retry/ }));
+
+    expect(await screen.findByText(`[fr] ${SPANISH}`)).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("keeps a translation when translating it again fails", async () => {
+    const user = await renderApp();
+    await sendMessage(user, SPANISH);
+    await sendMessage(user, SPANISH);
+    await waitFor(() => expect(screen.getAllByText(SPANISH)).toHaveLength(2));
+
+    const pickers = screen.getAllByRole("button", {
+      name: "Select language for translation",
+    });
+    for (const [index, picker] of pickers.entries()) {
+      await user.click(picker);
+      await user.click(await screen.findByRole("option", { name: /French/ }));
+      await waitFor(() =>
+        expect(screen.getAllByText(`[fr] ${SPANISH}`)).toHaveLength(index + 1)
+      );
+    }
+    await screen.findByText(/From memory/);
+
+    mock!.config.failures = { translator: new Error("Model crashed") };
+    await user.click(screen.getByRole("button", { name: /Translate again/ }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Translation to French failed"
+    );
+    expect(screen.getAllByText(`[fr] ${SPANISH}`)).toHaveLength(2);
+    expect(screen.getByText(/From memory/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,168 @@
+import type { ReactNode } from "react";
+import { IoWarningOutline } from "react-icons/io5";
+import Interpolated from "./Interpolated";
+import ProviderSelector from "./ProviderSelector";
+import RecheckButton from "./RecheckButton";
+import { useI18n } from "../hooks/useI18n";
+import {
+  describeMissingCapabilities,
+  hasAnyCapability,
+  type ProviderCapabilities,
+  type ProviderId,
+  type ProviderSettings,
+} from "../lib/ai";
+
+interface AvailabilityGateProps {
+  // null while the check is running
+  capabilities: ProviderCapabilities | null;
+  providerId: ProviderId;
+  providerSettings: ProviderSettings;
+  error: string | null;
+  isChecking: boolean;
+  onRecheck: () => void;
+  onProviderChange: (settings: ProviderSettings) => void;
+  // Rendered once at least one feature is available
+  children: (capabilities: ProviderCapabilities) => ReactNode;
+}
+
+// Shows a loading screen while the backend is checked and setup instructions
+// when it can't serve any feature.
+function AvailabilityGate({
+  capabilities,
+  providerId,
+  providerSettings,
+  error,
+  isChecking,
+  onRecheck,
+  onProviderChange,
+  children,
+}: AvailabilityGateProps) {
+  const { t } = useI18n();
+
+  if (capabilities === null) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 to-blue-50">
+        <div className="p-8 bg-white rounded-xl shadow-lg">
+          <div className="flex items-center space-x-3">
+            <div className="w-5 h-5 rounded-full bg-indigo-500 animate-pulse"></div>
+            <span className="text-xl font-medium text-gray-800">
+              {t("gate.checking")}
+            </span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (hasAnyCapability(capabilities)) return <>{children(capabilities)}</>;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 to-blue-50">
+      <div className="p-8 bg-white rounded-xl shadow-lg max-w-lg w-full">
+        <div className="flex items-center justify-between gap-3 mb-5">
+          <div className="flex items-center gap-3 text-red-500">
+            <IoWarningOutline className="size-7" />
+            <h2 className="text-2xl font-bold">
+              {providerId === "chrome"
+                ? t("gate.chromeTitle")
+                : t("gate.serverTitle")}
+            </h2>
+          </div>
+          <ProviderSelector
+            settings={providerSettings}
+            onChange={onProviderChange}
+          />
+        </div>
+        {providerId === "chrome" ? (
+          <p className="mb-5 text-gray-700">{t("gate.chromeIntro")}</p>
+        ) : (
+          <p className="mb-5 text-gray-700">
+            <Interpolated
+              text={t("gate.serverIntro")}
+              values={{
+                url: (
+                  <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                    {providerSettings.http.baseUrl}
+                  </code>
+                ),
+              }}
+            />
+          </p>
+        )}
+        {providerId === "chrome" && (
+          <div className="bg-gray-50 p-5 rounded-lg mb-5 border border-gray-200">
+            <h3 className="font-bold mb-3 text-lg">{t("gate.setupTitle")}</h3>
+            <ol className="list-decimal list-inside space-y-3">
+              <li className="text-gray-800">
+                <Interpolated
+                  text={t("gate.openFlags")}
+                  values={{
+                    url: (
+                      <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                        chrome://flags
+                      </code>
+                    ),
+                  }}
+                />
+              </li>
+              <li className="text-gray-800">
+                {t("gate.enableFlags")}
+                <ul className="list-disc list-inside ml-5 mt-2 space-y-1.5">
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #language-detection-api
+                    </code>
+                  </li>
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #translation-api
+                    </code>
+                  </li>
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #summarization-api-for-gemini-nano
+                    </code>
+                  </li>
+                </ul>
+              </li>
+              <li className="text-gray-800">
+                {t("gate.optionalFlags")}
+                <ul className="list-disc list-inside ml-5 mt-2 space-y-1.5">
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #rewriter-api-for-gemini-nano
+                    </code>
+                  </li>
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #writer-api-for-gemini-nano
+                    </code>
+                  </li>
+                  <li>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-indigo-600 font-mono">
+                      #prompt-api-for-gemini-nano
+                    </code>
+                  </li>
+                </ul>
+              </li>
+              <li className="text-gray-800">{t("gate.restart")}</li>
+              <li className="text-gray-800">{t("gate.recheckHint")}</li>
+            </ol>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-500">
+            {t("gate.errorDetails", {
+              details:
+                error ??
+                describeMissingCapabilities(t, providerId, capabilities),
+            })}
+          </p>
+          <RecheckButton isChecking={isChecking} onRecheck={onRecheck} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AvailabilityGate;
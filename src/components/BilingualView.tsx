@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { BiCheck, BiEditAlt } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import { displayLanguageName } from "../lib/languages";
+import type { AlignedSentence } from "../types";
+
+interface BilingualViewProps {
+  rows: AlignedSentence[];
+  sourceLanguage: string | null;
+  targetLanguage: string;
+  onEdit: (index: number, text: string) => void;
+  onReviewedChange: (index: number, reviewed: boolean) => void;
+}
+
+// Original and translated sentences in two aligned columns. Hovering a row
+// highlights both sides; each translated sentence can be edited and marked
+// as reviewed.
+function BilingualView({
+  rows,
+  sourceLanguage,
+  targetLanguage,
+  onEdit,
+  onReviewedChange,
+}: BilingualViewProps) {
+  const { locale, t } = useI18n();
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEdit = (index: number) => {
+    setEditingIndex(index);
+    setDraft(rows[index].translation.trim());
+  };
+
+  const commitEdit = () => {
+    if (editingIndex !== null) onEdit(editingIndex, draft);
+    setEditingIndex(null);
+  };
+
+  return (
+    <div className="text-sm text-gray-800 leading-relaxed">
+      <div className="grid grid-cols-2 gap-3 pb-1 mb-1 border-b border-purple-100 text-xs font-medium text-gray-500">
+        <span>
+          {sourceLanguage
+            ? displayLanguageName(sourceLanguage, locale)
+            : t("source.unknown")}
+        </span>
+        <span>{displayLanguageName(targetLanguage, locale)}</span>
+      </div>
+      {rows.map((row, index) => (
+        <div
+          key={index}
+          className={`group grid grid-cols-2 gap-3 px-1.5 py-1 -mx-1.5 rounded-md hover:bg-yellow-50 focus-within:bg-yellow-50 ${
+            row.reviewed ? "text-gray-600" : ""
+          }`}
+        >
+          <p className="whitespace-pre-wrap">{row.source.trim()}</p>
+          {editingIndex === index ? (
+            <div className="flex flex-col gap-1.5">
+              <textarea
+                className="block w-full p-2 text-sm border border-purple-200 rounded-lg outline-none focus:border-purple-500 resize-y"
+                rows={2}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setEditingIndex(null);
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    commitEdit();
+                  }
+                }}
+                aria-label={t("bilingual.editTranslation", {
+                  number: index + 1,
+                })}
+                autoFocus
+              />
+              <div className="flex gap-2 text-xs">
+                <button
+                  onClick={commitEdit}
+                  className="px-2.5 py-1 font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700"
+                >
+                  {t("common.save")}
+                </button>
+                <button
+                  onClick={() => setEditingIndex(null)}
+                  className="px-2.5 py-1 rounded-md text-gray-600 hover:bg-gray-100"
+                >
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-start gap-1.5">
+              <p className="flex-1 whitespace-pre-wrap">
+                {row.translation.trim() || (
+                  <span className="text-gray-400">
+                    {t("bilingual.noMatch")}
+                  </span>
+                )}
+                {row.edited && (
+                  <span className="ml-1.5 px-1 rounded bg-purple-100 text-xs text-purple-700">
+                    {t("bilingual.edited")}
+                  </span>
+                )}
+              </p>
+              <button
+                onClick={() => startEdit(index)}
+                className="p-1 rounded text-gray-400 hover:text-purple-700 hover:bg-purple-100 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={t("bilingual.edit", { number: index + 1 })}
+              >
+                <BiEditAlt className="size-4" />
+              </button>
+              <button
+                onClick={() => onReviewedChange(index, !row.reviewed)}
+                className={`p-1 rounded ${
+                  row.reviewed
+                    ? "text-green-600 bg-green-100 hover:bg-green-200"
+                    : "text-gray-400 hover:text-green-700 hover:bg-green-50"
+                }`}
+                aria-label={t("bilingual.markReviewed", { number: index + 1 })}
+                aria-pressed={row.reviewed ?? false}
+              >
+                <BiCheck className="size-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default BilingualView;
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { BiLoaderCircle } from "react-icons/bi";
+import { MdOutlineSend } from "react-icons/md";
+import FileImportButton from "./FileImportButton";
+import Interpolated from "./Interpolated";
+import { useI18n } from "../hooks/useI18n";
+import { suggestCompletions, type CommandSuggestion } from "../lib/commands";
+
+interface ComposerProps {
+  isSending: boolean;
+  disabled?: boolean;
+  providerLabel: string;
+  // Resolves true once the message was added, which clears the input
+  onSend: (text: string) => Promise<boolean>;
+  onFiles: (files: File[]) => void;
+}
+
+function Composer({
+  isSending,
+  disabled,
+  providerLabel,
+  onSend,
+  onFiles,
+}: ComposerProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [inputText, setInputText] = useState("");
+  // Highlighted command completion, and whether Escape hid the list
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isCompletionHidden, setIsCompletionHidden] = useState(false);
+
+  const completion = isCompletionHidden
+    ? null
+    : suggestCompletions(i18n, inputText);
+  const suggestions = completion?.suggestions ?? [];
+  const active = suggestions[Math.min(activeIndex, suggestions.length - 1)];
+
+  const changeInput = (text: string) => {
+    setInputText(text);
+    setActiveIndex(0);
+    setIsCompletionHidden(false);
+  };
+
+  const complete = (suggestion: CommandSuggestion) => {
+    if (!completion) return;
+    changeInput(
+      inputText.slice(0, completion.from) +
+        suggestion.value +
+        (suggestion.endsWord ? " " : "")
+    );
+  };
+
+  const send = async () => {
+    if (!inputText.trim() || isSending) return;
+    if (await onSend(inputText)) changeInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (active) {
+      const typed = inputText.slice(completion!.from);
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (suggestions.indexOf(active) + step + suggestions.length) %
+            suggestions.length
+        );
+        return;
+      }
+      if (e.key === "Escape") {
+        setIsCompletionHidden(true);
+        return;
+      }
+      // Enter sends once the word is complete
+      if (
+        e.key === "Tab" ||
+        (e.key === "Enter" && !e.shiftKey && typed !== active.value)
+      ) {
+        e.preventDefault();
+        complete(active);
+        return;
+      }
+    }
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    // Plain text pastes go into the textarea as usual
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    onFiles(files);
+  };
+
+  return (
+    <footer className="bg-white border-t border-indigo-100 p-5 drop-shadow-lg">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-end gap-3">
+          <div className="flex-1 min-h-[80px] relative">
+            {active && (
+              <ul
+                id="command-suggestions"
+                role="listbox"
+                aria-label={t("composer.suggestions")}
+                className="absolute bottom-full left-0 mb-2 w-72 max-w-full bg-white rounded-xl shadow-lg border border-gray-100 p-1.5 text-sm z-10"
+              >
+                {suggestions.map((suggestion, index) => (
+                  <li
+                    key={suggestion.value}
+                    id={`command-suggestion-${index}`}
+                    role="option"
+                    aria-selected={suggestion === active}
+                    onMouseDown={(e) => {
+                      // Keep focus in the textarea
+                      e.preventDefault();
+                      complete(suggestion);
+                    }}
+                    className={`flex items-baseline gap-2 px-2.5 py-1.5 rounded-lg cursor-pointer ${
+                      suggestion === active
+                        ? "bg-indigo-50 text-indigo-700"
+                        : "text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    <span className="font-mono">{suggestion.label}</span>
+                    <span className="text-xs text-gray-500 truncate">
+                      {suggestion.description}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <textarea
+              id="message-input"
+              rows={3}
+              className="block p-4 w-full rounded-xl border border-gray-200 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 min-h-[80px] max-h-[150px] resize-y outline-none"
+              placeholder={t("composer.placeholder")}
+              value={inputText}
+              onChange={(e) => changeInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              disabled={isSending || disabled}
+              aria-label={t("composer.input")}
+              aria-autocomplete="list"
+              aria-controls={active ? "command-suggestions" : undefined}
+              aria-activedescendant={
+                active
+                  ? `command-suggestion-${suggestions.indexOf(active)}`
+                  : undefined
+              }
+            />
+          </div>
+          <FileImportButton
+            disabled={isSending || disabled}
+            onFiles={onFiles}
+          />
+          <button
+            className={`inline-flex items-center justify-center p-3.5 rounded-xl focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+              isSending || !inputText.trim()
+                ? "bg-gray-300 cursor-not-allowed"
+                : "bg-indigo-600 hover:bg-indigo-700 text-white shadow-md hover:shadow-lg transition-all"
+            }`}
+            disabled={isSending || !inputText.trim()}
+            onClick={send}
+            aria-label={t("composer.send")}
+          >
+            {isSending ? (
+              <BiLoaderCircle className="animate-spin size-6 text-white" />
+            ) : (
+              <MdOutlineSend className="size-5" />
+            )}
+          </button>
+        </div>
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2 md:gap-6 justify-between">
+          <p className="text-xs text-gray-500 leading-loose">
+            <Interpolated
+              text={t("composer.hint")}
+              values={{
+                enter: (
+                  <kbd className="px-2 py-1 bg-gray-100 rounded text-xs font-semibold text-gray-800 border border-gray-200">
+                    Enter
+                  </kbd>
+                ),
+                newLine: (
+                  <kbd className="px-2 py-1 bg-gray-100 rounded text-xs font-semibold text-gray-800 border border-gray-200">
+                    Shift+Enter
+                  </kbd>
+                ),
+                slash: (
+                  <kbd className="px-2 py-1 bg-gray-100 rounded text-xs font-semibold text-gray-800 border border-gray-200">
+                    /
+                  </kbd>
+                ),
+              }}
+            />
+          </p>
+          <p className="text-xs text-indigo-600">
+            {t("composer.poweredBy", { provider: providerLabel })}
+          </p>
+        </div>
+      </div>
+    </footer>
+  );
+}
+
+export default Composer;
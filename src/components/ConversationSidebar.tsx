@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { BiEditAlt, BiPlus, BiSearch, BiTrash } from "react-icons/bi";
+import { conversationTitle } from "../hooks/useConversations";
+import { useI18n } from "../hooks/useI18n";
+import type { Translate } from "../lib/i18n";
+import type { Conversation } from "../types";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const matchesSearch = (
+  t: Translate,
+  conversation: Conversation,
+  query: string
+) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    conversationTitle(t, conversation).toLowerCase().includes(needle) ||
+    conversation.messages.some((message) =>
+      message.text.toLowerCase().includes(needle)
+    )
+  );
+};
+
+function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversationTitle(t, conversation));
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: Conversation) => {
+    if (
+      window.confirm(
+        t("sidebar.confirmDelete", {
+          title: conversationTitle(t, conversation),
+        })
+      )
+    ) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const visible = conversations.filter((conversation) =>
+    matchesSearch(t, conversation, query)
+  );
+
+  return (
+    <aside className="w-64 shrink-0 bg-white border-r border-indigo-100 flex flex-col">
+      <div className="p-3 space-y-2 border-b border-gray-100">
+        <button
+          onClick={onCreate}
+          className="w-full inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+        >
+          <BiPlus className="size-4" />
+          {t("sidebar.new")}
+        </button>
+        <div className="relative">
+          <BiSearch className="absolute top-0 bottom-0 my-auto left-3 size-4 text-gray-400" />
+          <input
+            type="search"
+            className="block w-full pl-9 pr-3 py-2 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+            placeholder={t("sidebar.search")}
+            aria-label={t("sidebar.search")}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <nav className="flex-1 overflow-auto p-2 space-y-1">
+        {visible.length === 0 && (
+          <p className="px-3 py-2 text-xs text-gray-400">
+            {t("sidebar.noMatch")}
+          </p>
+        )}
+        {visible.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-1 rounded-lg px-3 py-2 text-sm ${
+              conversation.id === activeId
+                ? "bg-indigo-50 text-indigo-800"
+                : "text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                className="flex-1 min-w-0 px-1 py-0.5 text-sm border border-indigo-300 rounded outline-none"
+                aria-label={t("sidebar.name")}
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(conversation.id)}
+                className="flex-1 min-w-0 text-left"
+                aria-current={conversation.id === activeId}
+              >
+                <span className="block truncate">
+                  {conversationTitle(t, conversation)}
+                </span>
+                <span className="block text-xs text-gray-400">
+                  {t("sidebar.messages", {
+                    count: conversation.messages.length,
+                  })}{" "}
+                  ·{" "}
+                  {new Date(conversation.updatedAt).toLocaleDateString(locale)}
+                </span>
+              </button>
+            )}
+            <button
+              onClick={() => startRename(conversation)}
+              className="p-1 text-gray-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              aria-label={t("sidebar.rename", {
+                title: conversationTitle(t, conversation),
+              })}
+            >
+              <BiEditAlt className="size-4" />
+            </button>
+            <button
+              onClick={() => confirmDelete(conversation)}
+              className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              aria-label={t("sidebar.delete", {
+                title: conversationTitle(t, conversation),
+              })}
+            >
+              <BiTrash className="size-4" />
+            </button>
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+}
+
+export default ConversationSidebar;
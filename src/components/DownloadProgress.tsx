@@ -0,0 +1,55 @@
+import { BiDownload } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import { useModelDownloads } from "../hooks/useModelDownloads";
+import { displayLanguageName } from "../lib/languages";
+
+function DownloadProgress() {
+  const { locale, t } = useI18n();
+  const downloads = useModelDownloads();
+
+  if (downloads.length === 0) return null;
+
+  const languageName = (code?: string) =>
+    code ? displayLanguageName(code, locale) : t("source.unknown");
+
+  return (
+    <div className="max-w-5xl mx-auto mt-3 space-y-2" aria-live="polite">
+      {downloads.map((download) => {
+        const percent = Math.round(download.progress * 100);
+        const { capability, sourceLanguage, targetLanguage } = download.model;
+        const label = t("download.progress", {
+          model: t(`download.${capability}`, {
+            source: languageName(sourceLanguage),
+            target: languageName(targetLanguage),
+          }),
+        });
+        return (
+          <div key={download.key}>
+            <div className="flex items-center justify-between text-xs text-indigo-700 mb-1">
+              <span className="inline-flex items-center gap-1.5">
+                <BiDownload className="size-4" />
+                {label}
+              </span>
+              <span>{percent}%</span>
+            </div>
+            <div
+              className="h-1.5 w-full bg-indigo-100 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-label={label}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div
+                className="h-full bg-indigo-500 transition-all"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default DownloadProgress;
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { BiRefresh } from "react-icons/bi";
+import { IoWarningOutline } from "react-icons/io5";
+import { useI18n } from "../hooks/useI18n";
+import { localize } from "../lib/i18n";
+import type { OperationError } from "../types";
+
+interface ErrorLogPanelProps {
+  errors: OperationError[];
+  onDismiss: (error: OperationError) => void;
+  onClear: () => void;
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, {
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+function ErrorLogPanel({ errors, onDismiss, onClear }: ErrorLogPanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex gap-1.5 items-center px-3.5 py-1.5 rounded-full text-xs font-medium bg-red-50 text-red-700 border border-red-200 hover:bg-red-100 transition-colors"
+        aria-label={t("errorLog.show")}
+        aria-expanded={isOpen}
+      >
+        <IoWarningOutline className="size-4" />
+        {errors.length}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-100 text-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="text-xs font-medium text-gray-600">
+              {t("errorLog.title")}
+            </h2>
+            <button
+              onClick={() => {
+                onClear();
+                setIsOpen(false);
+              }}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              {t("common.clearAll")}
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-auto p-2 space-y-1">
+            {errors.map((error) => (
+              <li
+                key={error.id}
+                className="px-3 py-2 rounded-lg hover:bg-gray-50 text-xs"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-800">
+                    {localize(i18n, error.title)}
+                  </span>
+                  <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700">
+                    {t(`errorKind.${error.kind}`)}
+                  </span>
+                  <span className="ml-auto text-gray-400">
+                    {timeFormat.format(error.time)}
+                  </span>
+                </div>
+                <p className="mt-1 text-gray-600">
+                  {localize(i18n, error.message)}
+                </p>
+                <div className="mt-1 flex gap-3">
+                  {error.retry && (
+                    <button
+                      onClick={error.retry}
+                      className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+                    >
+                      <BiRefresh className="size-3.5" />
+                      {t("common.retry")}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDismiss(error)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    {t("common.dismiss")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ErrorLogPanel;
@@ -0,0 +1,96 @@
+import { useRef, useState } from "react";
+import { BiExport, BiImport } from "react-icons/bi";
+import type { ReportError } from "../hooks/useErrorLog";
+import { useI18n } from "../hooks/useI18n";
+import {
+  exportConversation,
+  parseConversationJSON,
+  type ExportFormat,
+} from "../lib/conversationFiles";
+import type { Conversation } from "../types";
+
+interface ExportMenuProps {
+  conversation: Conversation | null;
+  onImport: (conversation: Omit<Conversation, "id">) => void;
+  onError: ReportError;
+}
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: "json", label: "JSON" },
+  { value: "markdown", label: "Markdown" },
+  { value: "csv", label: "CSV" },
+];
+
+function ExportMenu({ conversation, onImport, onError }: ExportMenuProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseConversationJSON(t, await file.text()));
+    } catch (error) {
+      onError({ key: "export.import" }, error);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const isEmpty = !conversation || conversation.messages.length === 0;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex gap-1.5 items-center px-3.5 py-1.5 rounded-full text-xs font-medium bg-gray-50 text-gray-700 border border-gray-200 hover:bg-gray-100 transition-colors"
+        aria-label={t("export.label")}
+        aria-expanded={isOpen}
+      >
+        <BiExport className="size-4" />
+        {t("export.button")}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-52 bg-white rounded-xl shadow-lg border border-gray-100 p-2 text-sm">
+          {formats.map((format) => (
+            <button
+              key={format.value}
+              disabled={isEmpty}
+              onClick={() => {
+                if (conversation)
+                  exportConversation(i18n, conversation, format.value);
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("export.as", { format: format.label })}
+            </button>
+          ))}
+          <div className="my-1 border-t border-gray-100" />
+          <button
+            onClick={() => {
+              fileInputRef.current?.click();
+              setIsOpen(false);
+            }}
+            className="w-full inline-flex items-center gap-1.5 text-left px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <BiImport className="size-4" />
+            {t("export.importJson")}
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,42 @@
+import { useRef } from "react";
+import { BiPaperclip } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import { acceptedFileTypes } from "../lib/documents";
+
+interface FileImportButtonProps {
+  disabled?: boolean;
+  onFiles: (files: File[]) => void;
+}
+
+function FileImportButton({ disabled, onFiles }: FileImportButtonProps) {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        className="inline-flex items-center justify-center p-3.5 rounded-xl text-gray-600 bg-gray-50 border border-gray-200 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed"
+        aria-label={t("import.button")}
+        title={t("import.hint")}
+      >
+        <BiPaperclip className="size-5" />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={acceptedFileTypes}
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length > 0) onFiles(files);
+        }}
+      />
+    </>
+  );
+}
+
+export default FileImportButton;
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { BiBookBookmark, BiX } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import type { Glossary } from "../lib/glossary";
+import { candidateLanguages, displayLanguageName } from "../lib/languages";
+
+interface GlossaryMenuProps {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+}
+
+const inputClassName =
+  "block w-full px-2.5 py-1.5 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500";
+
+const addButtonClassName =
+  "px-3 py-1.5 text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 disabled:cursor-not-allowed";
+
+// Required translations per language pair and terms that are never
+// translated, applied to every translation
+function GlossaryMenu({ glossary, onChange }: GlossaryMenuProps) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState("en");
+  const [targetLanguage, setTargetLanguage] = useState("es");
+  const [source, setSource] = useState("");
+  const [target, setTarget] = useState("");
+  const [keptTerm, setKeptTerm] = useState("");
+
+  const canAddTerm =
+    source.trim() !== "" &&
+    target.trim() !== "" &&
+    sourceLanguage !== targetLanguage;
+
+  const addTerm = () => {
+    if (!canAddTerm) return;
+    onChange({
+      ...glossary,
+      terms: [
+        ...glossary.terms,
+        {
+          id: crypto.randomUUID(),
+          sourceLanguage,
+          targetLanguage,
+          source: source.trim(),
+          target: target.trim(),
+        },
+      ],
+    });
+    setSource("");
+    setTarget("");
+  };
+
+  const addKeptTerm = () => {
+    const term = keptTerm.trim();
+    if (!term) return;
+    if (!glossary.doNotTranslate.includes(term)) {
+      onChange({
+        ...glossary,
+        doNotTranslate: [...glossary.doNotTranslate, term],
+      });
+    }
+    setKeptTerm("");
+  };
+
+  const languageOptions = candidateLanguages.map((language) => (
+    <option key={language} value={language}>
+      {displayLanguageName(language, locale)}
+    </option>
+  ));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center p-1.5 rounded-full text-gray-700 bg-gray-50 border border-gray-200 hover:bg-gray-100 transition-colors"
+        aria-label={t("glossary.label")}
+        aria-expanded={isOpen}
+      >
+        <BiBookBookmark className="size-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-96 bg-white rounded-xl shadow-lg border border-gray-100 p-4 space-y-4 text-sm">
+          <section className="space-y-2">
+            <h3 className="text-xs font-medium text-gray-600">
+              {t("glossary.label")}
+            </h3>
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addTerm();
+              }}
+            >
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  className={inputClassName}
+                  value={sourceLanguage}
+                  onChange={(e) => setSourceLanguage(e.target.value)}
+                  aria-label={t("glossary.sourceLanguage")}
+                >
+                  {languageOptions}
+                </select>
+                <select
+                  className={inputClassName}
+                  value={targetLanguage}
+                  onChange={(e) => setTargetLanguage(e.target.value)}
+                  aria-label={t("glossary.targetLanguage")}
+                >
+                  {languageOptions}
+                </select>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  placeholder={t("glossary.term")}
+                  aria-label={t("glossary.sourceTerm")}
+                />
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  placeholder={t("glossary.translateAs")}
+                  aria-label={t("glossary.requiredTranslation")}
+                />
+              </div>
+              <button
+                type="submit"
+                className={addButtonClassName}
+                disabled={!canAddTerm}
+              >
+                {t("glossary.addTerm")}
+              </button>
+            </form>
+            {glossary.terms.length === 0 ? (
+              <p className="text-xs text-gray-500">{t("glossary.empty")}</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                {glossary.terms.map((term) => (
+                  <li
+                    key={term.id}
+                    className="flex items-center gap-2 py-1.5 text-xs text-gray-700"
+                  >
+                    <span className="text-gray-500">
+                      {term.sourceLanguage} → {term.targetLanguage}
+                    </span>
+                    <span className="flex-1 truncate">
+                      {term.source} → {term.target}
+                    </span>
+                    <button
+                      onClick={() =>
+                        onChange({
+                          ...glossary,
+                          terms: glossary.terms.filter(
+                            (other) => other.id !== term.id
+                          ),
+                        })
+                      }
+                      className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      aria-label={t("common.remove", { name: term.source })}
+                    >
+                      <BiX className="size-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-medium text-gray-600">
+              {t("glossary.doNotTranslate")}
+            </h3>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addKeptTerm();
+              }}
+            >
+              <input
+                type="text"
+                className={inputClassName}
+                value={keptTerm}
+                onChange={(e) => setKeptTerm(e.target.value)}
+                placeholder={t("glossary.keptPlaceholder")}
+                aria-label={t("glossary.keptTerm")}
+              />
+              <button
+                type="submit"
+                className={addButtonClassName}
+                disabled={!keptTerm.trim()}
+              >
+                {t("common.add")}
+              </button>
+            </form>
+            {glossary.doNotTranslate.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {glossary.doNotTranslate.map((term) => (
+                  <span
+                    key={term}
+                    className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-xs text-amber-800"
+                  >
+                    {term}
+                    <button
+                      onClick={() =>
+                        onChange({
+                          ...glossary,
+                          doNotTranslate: glossary.doNotTranslate.filter(
+                            (other) => other !== term
+                          ),
+                        })
+                      }
+                      className="rounded-full hover:bg-amber-100"
+                      aria-label={t("common.remove", { name: term })}
+                    >
+                      <BiX className="size-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GlossaryMenu;
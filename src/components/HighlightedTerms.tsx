@@ -0,0 +1,31 @@
+import { useI18n } from "../hooks/useI18n";
+import { splitByTerms } from "../lib/glossary";
+
+interface HighlightedTermsProps {
+  text: string;
+  terms: string[];
+}
+
+// Text with each glossary term marked
+function HighlightedTerms({ text, terms }: HighlightedTermsProps) {
+  const { t } = useI18n();
+  return (
+    <>
+      {splitByTerms(text, terms).map((part, index) =>
+        part.isTerm ? (
+          <mark
+            key={index}
+            className="px-0.5 rounded bg-amber-100 text-inherit"
+            title={t("glossary.highlighted")}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+export default HighlightedTerms;
@@ -0,0 +1,25 @@
+import { Fragment, type ReactNode } from "react";
+
+interface InterpolatedProps {
+  // Translated text with {name} placeholders left in
+  text: string;
+  values: Record<string, ReactNode>;
+}
+
+// Fills placeholders with elements, e.g. a <code> inside a sentence
+function Interpolated({ text, values }: InterpolatedProps) {
+  return (
+    <>
+      {text.split(/\{(\w+)\}/).map((part, index) =>
+        // Odd parts are placeholder names
+        index % 2 === 1 ? (
+          <Fragment key={index}>{values[part] ?? `{${part}}`}</Fragment>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export default Interpolated;
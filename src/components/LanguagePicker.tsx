@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from "react";
+import { BiChevronDown, BiLoaderCircle, BiSearch } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import { toAIError, type TranslationTarget } from "../lib/ai";
+import { localize, type LocalizedText } from "../lib/i18n";
+import { displayLanguageName } from "../lib/languages";
+
+interface LanguagePickerProps {
+  disabled?: boolean;
+  sourceLanguage: string;
+  // Languages already translated or queued, shown but not selectable
+  excluded: string[];
+  // A new function means a new backend, whose targets are loaded again
+  loadTargets: (sourceLanguage: string) => Promise<TranslationTarget[]>;
+  onSelect: (languages: string[]) => void;
+}
+
+// Targets, or why they couldn't be loaded, from one backend's loader
+interface LoadedTargets {
+  loader: LanguagePickerProps["loadTargets"];
+  targets?: TranslationTarget[];
+  error?: LocalizedText | string;
+}
+
+function LanguagePicker({
+  disabled,
+  sourceLanguage,
+  excluded,
+  loadTargets,
+  onSelect,
+}: LanguagePickerProps) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [loaded, setLoaded] = useState<LoadedTargets | null>(null);
+  // Languages ticked for a batch translation
+  const [checked, setChecked] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", closeOnOutsideClick);
+    return () => document.removeEventListener("mousedown", closeOnOutsideClick);
+  }, [isOpen]);
+
+  const current = loaded?.loader === loadTargets ? loaded : null;
+  const targets = current?.targets ?? null;
+  const loadError = current?.error ?? null;
+
+  useEffect(() => {
+    if (!isOpen || current) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const result = await loadTargets(sourceLanguage);
+        if (!cancelled) setLoaded({ loader: loadTargets, targets: result });
+      } catch (error) {
+        console.error("Failed to load translation languages:", error);
+        if (!cancelled) {
+          setLoaded({ loader: loadTargets, error: toAIError(error).text });
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, current, loadTargets, sourceLanguage]);
+
+  const open = () => {
+    setIsOpen(true);
+    setQuery("");
+    setChecked([]);
+    // Try again after a failure
+    if (loadError) setLoaded(null);
+  };
+
+  const select = (languages: string[]) => {
+    setIsOpen(false);
+    onSelect(languages);
+  };
+
+  const toggleChecked = (language: string) =>
+    setChecked((prev) =>
+      prev.includes(language)
+        ? prev.filter((code) => code !== language)
+        : [...prev, language]
+    );
+
+  const needle = query.trim().toLowerCase();
+  const visible = (targets ?? [])
+    .map((target) => ({
+      ...target,
+      name: displayLanguageName(target.language, locale),
+    }))
+    .filter(
+      (target) =>
+        !needle ||
+        target.name.toLowerCase().includes(needle) ||
+        target.language.toLowerCase().startsWith(needle)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name, locale));
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        disabled={disabled}
+        className="inline-flex items-center gap-6 pl-3 pr-3 py-2 text-sm border border-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-lg bg-white shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+        aria-label={t("picker.label")}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        {t("picker.button")}
+        <BiChevronDown className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-10 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100">
+          <div className="relative p-2 border-b border-gray-100">
+            <BiSearch className="absolute top-0 bottom-0 my-auto left-5 size-4 text-gray-400" />
+            <input
+              autoFocus
+              type="search"
+              className="block w-full pl-9 pr-3 py-2 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+              placeholder={t("picker.search")}
+              aria-label={t("picker.search")}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsOpen(false);
+                if (e.key === "Enter") {
+                  const first = visible.find(
+                    (target) => !excluded.includes(target.language)
+                  );
+                  if (first) select([first.language]);
+                }
+              }}
+            />
+            <p className="px-1 pt-2 text-xs text-gray-400">
+              {t("picker.batchHint")}
+            </p>
+          </div>
+
+          <ul className="max-h-64 overflow-auto p-1" role="listbox">
+            {!targets && !loadError && (
+              <li className="flex items-center gap-2 px-3 py-2 text-xs text-gray-500">
+                <BiLoaderCircle className="animate-spin size-4" />
+                {t("picker.checking")}
+              </li>
+            )}
+            {loadError && (
+              <li className="px-3 py-2 text-xs text-red-600">
+                {t("picker.loadFailed", { message: localize(i18n, loadError) })}
+              </li>
+            )}
+            {targets && visible.length === 0 && (
+              <li className="px-3 py-2 text-xs text-gray-400">
+                {t("picker.noMatch")}
+              </li>
+            )}
+            {visible.map((target) => {
+              const isExcluded = excluded.includes(target.language);
+              return (
+                <li
+                  key={target.language}
+                  className="flex items-center gap-1 pl-2 rounded-lg hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-indigo-600"
+                    disabled={isExcluded}
+                    checked={checked.includes(target.language)}
+                    onChange={() => toggleChecked(target.language)}
+                    aria-label={t("picker.addToBatch", {
+                      language: target.name,
+                    })}
+                  />
+                  <button
+                    role="option"
+                    aria-selected={checked.includes(target.language)}
+                    disabled={isExcluded}
+                    onClick={() => select([target.language])}
+                    className="flex-1 flex items-center justify-between gap-2 px-2 py-2 text-sm text-left rounded-lg text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span>
+                      {target.name}{" "}
+                      <span className="text-xs text-gray-400">
+                        {target.language}
+                      </span>
+                    </span>
+                    {target.availability === "readily" ? (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                        {t("picker.ready")}
+                      </span>
+                    ) : (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                        {t("picker.needsDownload")}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {checked.length > 0 && (
+            <div className="flex items-center justify-between gap-2 p-2 border-t border-gray-100">
+              <button
+                onClick={() => setChecked([])}
+                className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700"
+              >
+                {t("common.clear")}
+              </button>
+              <button
+                onClick={() => select(checked)}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                {t("picker.translateBatch", { count: checked.length })}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LanguagePicker;
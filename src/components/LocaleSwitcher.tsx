@@ -0,0 +1,31 @@
+import { BiGlobe } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import { localeName, locales, type Locale } from "../lib/i18n";
+
+interface LocaleSwitcherProps {
+  onChange: (locale: Locale) => void;
+}
+
+function LocaleSwitcher({ onChange }: LocaleSwitcherProps) {
+  const { locale, t } = useI18n();
+
+  return (
+    <label className="inline-flex items-center gap-1 pl-2 pr-1 py-1 rounded-full text-xs text-gray-700 bg-gray-50 border border-gray-200 hover:bg-gray-100 transition-colors">
+      <BiGlobe className="size-4" />
+      <select
+        value={locale}
+        onChange={(e) => onChange(e.target.value as Locale)}
+        className="bg-transparent outline-none cursor-pointer"
+        aria-label={t("locale.label")}
+      >
+        {locales.map((code) => (
+          <option key={code} value={code}>
+            {localeName(code)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LocaleSwitcher;
@@ -0,0 +1,74 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+
+interface MarkdownProps {
+  children: string;
+  // Show the source text instead of rendering it
+  raw?: boolean;
+}
+
+// Tailwind resets element styles, so every element we allow gets classes here.
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => (
+    <ul className="list-disc pl-5 mb-2 last:mb-0 space-y-1">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="list-decimal pl-5 mb-2 last:mb-0 space-y-1">{children}</ol>
+  ),
+  h1: ({ children }) => (
+    <h1 className="text-base font-bold mb-2">{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="text-base font-semibold mb-2">{children}</h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className="text-sm font-semibold mb-1.5">{children}</h3>
+  ),
+  code: ({ children }) => (
+    <code className="bg-gray-100 px-1 py-0.5 rounded text-indigo-700 font-mono text-xs">
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-gray-100 p-3 rounded-md overflow-x-auto mb-2 [&>code]:bg-transparent [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-indigo-600 underline hover:text-indigo-800"
+    >
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-gray-300 pl-3 text-gray-600 mb-2">
+      {children}
+    </blockquote>
+  ),
+  // Model output can't be trusted to point at safe images
+  img: ({ alt }) => <span>{alt}</span>,
+};
+
+// Renders model output as Markdown. Raw HTML is dropped rather than rendered
+// and react-markdown strips unsafe URLs (javascript:, data: etc.) from links.
+function Markdown({ children, raw }: MarkdownProps) {
+  if (raw) {
+    return (
+      <pre className="whitespace-pre-wrap font-mono text-xs">{children}</pre>
+    );
+  }
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown skipHtml components={components}>
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default Markdown;
@@ -0,0 +1,165 @@
+import { useMemo, useState } from "react";
+import { BiData, BiTrash } from "react-icons/bi";
+import type { ReportError } from "../hooks/useErrorLog";
+import { useI18n } from "../hooks/useI18n";
+import { displayLanguageName } from "../lib/languages";
+import type { MemoryEntry } from "../lib/memory";
+import {
+  clearMemory,
+  deleteMemoryEntry,
+  listMemoryEntries,
+} from "../lib/storage/memory";
+
+interface MemoryPanelProps {
+  onError: ReportError;
+}
+
+// Browses and purges remembered translations and summaries
+function MemoryPanel({ onError }: MemoryPanelProps) {
+  const { locale, t } = useI18n();
+  const dateFormat = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, {
+        dateStyle: "short",
+        timeStyle: "short",
+      }),
+    [locale]
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [filter, setFilter] = useState("");
+
+  const handleToggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    try {
+      setEntries(await listMemoryEntries());
+    } catch (error) {
+      onError({ key: "memory.loading" }, error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMemoryEntry(id);
+      setEntries((prev) => prev.filter((entry) => entry.id !== id));
+    } catch (error) {
+      onError({ key: "memory.deleting" }, error);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearMemory();
+      setEntries([]);
+    } catch (error) {
+      onError({ key: "memory.clearing" }, error);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const shown = query
+    ? entries.filter(
+        (entry) =>
+          entry.text.toLowerCase().includes(query) ||
+          entry.result.toLowerCase().includes(query)
+      )
+    : entries;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="inline-flex items-center p-1.5 rounded-full text-gray-700 bg-gray-50 border border-gray-200 hover:bg-gray-100 transition-colors"
+        aria-label={t("memory.label")}
+        aria-expanded={isOpen}
+      >
+        <BiData className="size-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-96 bg-white rounded-xl shadow-lg border border-gray-100 text-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="text-xs font-medium text-gray-600">
+              {t("memory.title", { count: entries.length })}
+            </h2>
+            {entries.length > 0 && (
+              <button
+                onClick={handleClear}
+                className="text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                {t("common.clearAll")}
+              </button>
+            )}
+          </div>
+          {entries.length === 0 ? (
+            <p className="px-4 py-3 text-xs text-gray-500">
+              {t("memory.empty")}
+            </p>
+          ) : (
+            <>
+              <div className="px-4 pt-3">
+                <input
+                  type="search"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder={t("memory.search")}
+                  className="block w-full px-2.5 py-1.5 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+                  aria-label={t("memory.search")}
+                />
+              </div>
+              <ul className="max-h-80 overflow-auto p-2 space-y-1">
+                {shown.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="px-3 py-2 rounded-lg hover:bg-gray-50 text-xs"
+                  >
+                    <div className="flex items-center gap-2 text-gray-500">
+                      <span className="font-medium text-gray-700">
+                        {entry.kind === "translation"
+                          ? `${displayLanguageName(
+                              entry.sourceLanguage,
+                              locale
+                            )} → ${displayLanguageName(
+                              entry.resultLanguage ?? entry.target,
+                              locale
+                            )}`
+                          : t("memory.summaryIn", {
+                              language: displayLanguageName(
+                                entry.resultLanguage ?? entry.sourceLanguage,
+                                locale
+                              ),
+                            })}
+                      </span>
+                      <span className="ml-auto">
+                        {dateFormat.format(entry.usedAt)}
+                      </span>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                        aria-label={t("memory.delete")}
+                      >
+                        <BiTrash className="size-3.5" />
+                      </button>
+                    </div>
+                    <p className="mt-1 text-gray-600 line-clamp-2">
+                      {entry.text}
+                    </p>
+                    <p className="mt-0.5 text-gray-800 line-clamp-2">
+                      {entry.result}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MemoryPanel;
@@ -0,0 +1,155 @@
+import { BiPaperclip } from "react-icons/bi";
+import Markdown from "./Markdown";
+import OperationErrorNotice from "./OperationErrorNotice";
+import SourceLanguagePicker from "./SourceLanguagePicker";
+import SummaryPanel from "./SummaryPanel";
+import TranslationPanel from "./TranslationPanel";
+import WritingPanel from "./WritingPanel";
+import type { ReportError } from "../hooks/useErrorLog";
+import { useI18n } from "../hooks/useI18n";
+import type {
+  ProviderCapabilities,
+  SummarizeOptions,
+  TranslationTarget,
+} from "../lib/ai";
+import { detectionKey } from "../lib/messageStore";
+import type { Glossary } from "../lib/glossary";
+import type { Preferences } from "../lib/preferences";
+import type { GenerateRequest } from "../lib/writingActions";
+import type { Message, OperationError, OperationStatus } from "../types";
+
+interface MessageCardProps {
+  message: Message;
+  preferences: Preferences;
+  glossary: Glossary;
+  capabilities: ProviderCapabilities;
+  // All operations and failures; the card picks out its own by key
+  statuses: Record<string, OperationStatus>;
+  errors: Record<string, OperationError>;
+  loadTargets: (sourceLanguage: string) => Promise<TranslationTarget[]>;
+  onSourceLanguageChange: (language: string) => void;
+  onSummarize: (options?: SummarizeOptions) => void;
+  onResummarize: (options: SummarizeOptions) => void;
+  onTranslate: (languages: string[]) => void;
+  onRetranslate: (language: string) => void;
+  onGenerate: (request: GenerateRequest) => void;
+  onRemoveGenerated: (key: string) => void;
+  onEditSentence: (language: string, index: number, text: string) => void;
+  onSentenceReviewed: (
+    language: string,
+    index: number,
+    reviewed: boolean
+  ) => void;
+  onStop: (key: string) => void;
+  onDismissError: (key: string) => void;
+  onError: ReportError;
+}
+
+function MessageCard({
+  message,
+  preferences,
+  glossary,
+  capabilities,
+  statuses,
+  errors,
+  loadTargets,
+  onSourceLanguageChange,
+  onSummarize,
+  onResummarize,
+  onTranslate,
+  onRetranslate,
+  onGenerate,
+  onRemoveGenerated,
+  onEditSentence,
+  onSentenceReviewed,
+  onStop,
+  onDismissError,
+  onError,
+}: MessageCardProps) {
+  const { t } = useI18n();
+  const detectionFailure = errors[detectionKey(message.id)];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-5 border border-gray-100 hover:shadow-md transition-shadow">
+      <div className="mb-3">
+        {preferences.renderMarkdownMessages ? (
+          <div className="text-gray-800 leading-relaxed">
+            <Markdown>{message.text}</Markdown>
+          </div>
+        ) : (
+          <p className="text-gray-800 leading-relaxed whitespace-pre-wrap">
+            {message.text}
+          </p>
+        )}
+        <div className="mt-2 text-xs text-gray-500 flex flex-wrap items-center gap-2">
+          <SourceLanguagePicker
+            language={message.language}
+            detected={message.detectedLanguages ?? []}
+            overridden={Boolean(message.languageOverridden)}
+            onChange={onSourceLanguageChange}
+          />
+          {message.source && (
+            <span className="inline-flex items-center gap-1 text-gray-500">
+              <BiPaperclip className="size-3.5" />
+              {message.source}
+            </span>
+          )}
+          {capabilities.detect === "no" && !message.language && (
+            <span className="text-amber-700">
+              {t("message.detectUnavailable")}
+            </span>
+          )}
+        </div>
+        {detectionFailure && (
+          <div className="mt-2">
+            <OperationErrorNotice
+              error={detectionFailure}
+              onDismiss={() => onDismissError(detectionKey(message.id))}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4 mt-4">
+        <SummaryPanel
+          message={message}
+          minLength={preferences.summaryMinLength}
+          canSummarize={capabilities.summarize !== "no"}
+          statuses={statuses}
+          errors={errors}
+          onSummarize={onSummarize}
+          onResummarize={onResummarize}
+          onStop={onStop}
+          onDismissError={onDismissError}
+        />
+        <WritingPanel
+          message={message}
+          capabilities={capabilities}
+          statuses={statuses}
+          errors={errors}
+          onGenerate={onGenerate}
+          onRemove={onRemoveGenerated}
+          onStop={onStop}
+          onDismissError={onDismissError}
+        />
+        <TranslationPanel
+          message={message}
+          canTranslate={capabilities.translate !== "no"}
+          glossary={glossary}
+          statuses={statuses}
+          errors={errors}
+          loadTargets={loadTargets}
+          onTranslate={onTranslate}
+          onRetranslate={onRetranslate}
+          onEditSentence={onEditSentence}
+          onSentenceReviewed={onSentenceReviewed}
+          onStop={onStop}
+          onDismissError={onDismissError}
+          onError={onError}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default MessageCard;
@@ -0,0 +1,53 @@
+import { BiRefresh } from "react-icons/bi";
+import { IoWarningOutline } from "react-icons/io5";
+import { useI18n } from "../hooks/useI18n";
+import { localize } from "../lib/i18n";
+import type { OperationError } from "../types";
+
+interface OperationErrorNoticeProps {
+  error: OperationError;
+  onDismiss: () => void;
+}
+
+// Inline failure shown on the card of the operation that failed
+function OperationErrorNotice({ error, onDismiss }: OperationErrorNoticeProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  return (
+    <div
+      className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-800"
+      role="alert"
+    >
+      <IoWarningOutline className="size-4 shrink-0 text-red-500" />
+      <p className="flex-1">
+        <span className="font-medium">
+          {t("error.failed", { title: localize(i18n, error.title) })}
+        </span>
+        <span className="ml-1.5 px-1.5 py-0.5 rounded bg-red-100 text-red-700">
+          {t(`errorKind.${error.kind}`)}
+        </span>
+        <span className="block mt-0.5 text-red-700">
+          {localize(i18n, error.message)}
+        </span>
+      </p>
+      {error.retry && (
+        <button
+          onClick={error.retry}
+          className="inline-flex items-center gap-1 px-2.5 py-1 font-medium rounded-md text-red-600 bg-white border border-red-200 hover:bg-red-50 transition-colors"
+        >
+          <BiRefresh className="size-4" />
+          {t("common.retry")}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="px-1.5 py-1 text-red-600 hover:text-red-800 underline"
+      >
+        {t("common.dismiss")}
+      </button>
+    </div>
+  );
+}
+
+export default OperationErrorNotice;
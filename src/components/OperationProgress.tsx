@@ -0,0 +1,45 @@
+import { useI18n } from "../hooks/useI18n";
+import type { OperationStatus } from "../types";
+
+interface OperationProgressProps {
+  status: OperationStatus | undefined;
+  // Text color class; the bar uses the current color
+  className: string;
+}
+
+// Chunk progress of a long summary or translation, or a note while it
+// waits for a model another request is downloading
+function OperationProgress({ status, className }: OperationProgressProps) {
+  const { t } = useI18n();
+
+  if (status?.state === "waiting") {
+    return (
+      <p className={`mb-2 text-xs ${className}`} role="status">
+        {t("progress.waiting")}
+      </p>
+    );
+  }
+
+  const progress = status?.progress;
+  if (!progress) return null;
+
+  return (
+    <div className={`mb-2 text-xs ${className}`} role="status">
+      <p>
+        {t("progress.part", {
+          label: progress.label,
+          part: Math.min(progress.done + 1, progress.total),
+          total: progress.total,
+        })}
+      </p>
+      <div className="mt-1 h-1 rounded-full bg-white overflow-hidden">
+        <div
+          className="h-full bg-current opacity-60 transition-all"
+          style={{ width: `${(progress.done / progress.total) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default OperationProgress;
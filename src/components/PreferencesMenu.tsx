@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { BiSliderAlt } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+import type { Preferences } from "../lib/preferences";
+
+interface PreferencesMenuProps {
+  preferences: Preferences;
+  onChange: (preferences: Preferences) => void;
+}
+
+function PreferencesMenu({ preferences, onChange }: PreferencesMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center p-1.5 rounded-full text-gray-700 bg-gray-50 border border-gray-200 hover:bg-gray-100 transition-colors"
+        aria-label={t("preferences.label")}
+        aria-expanded={isOpen}
+      >
+        <BiSliderAlt className="size-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 p-4 space-y-3 text-sm">
+          <label className="block text-xs font-medium text-gray-600">
+            {t("preferences.summaryMinLength")}
+            <span className="mt-1 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step={10}
+                className="block w-24 px-3 py-2 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+                value={preferences.summaryMinLength}
+                onChange={(e) =>
+                  onChange({
+                    ...preferences,
+                    summaryMinLength: Math.max(0, Number(e.target.value) || 0),
+                  })
+                }
+              />
+              {t("preferences.characters")}
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-0.5 accent-indigo-600"
+              checked={preferences.translateSummaryBack}
+              onChange={(e) =>
+                onChange({
+                  ...preferences,
+                  translateSummaryBack: e.target.checked,
+                })
+              }
+            />
+            {t("preferences.translateSummaryBack")}
+          </label>
+          <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-0.5 accent-indigo-600"
+              checked={preferences.renderMarkdownMessages}
+              onChange={(e) =>
+                onChange({
+                  ...preferences,
+                  renderMarkdownMessages: e.target.checked,
+                })
+              }
+            />
+            {t("preferences.renderMarkdown")}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PreferencesMenu;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { BiChevronDown } from "react-icons/bi";
+import { IoSettingsOutline } from "react-icons/io5";
+import { useI18n } from "../hooks/useI18n";
+import type { HttpDialect, ProviderSettings } from "../lib/ai";
+
+interface ProviderSelectorProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClassName =
+  "block w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white shadow-sm outline-none focus:border-indigo-500 focus:ring-indigo-500";
+
+function ProviderSelector({ settings, onChange }: ProviderSelectorProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  const open = () => {
+    setDraft(settings);
+    setIsOpen(true);
+  };
+
+  const apply = () => {
+    onChange(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        className="inline-flex gap-1.5 items-center px-3.5 py-1.5 rounded-full text-xs font-medium bg-gray-50 text-gray-700 border border-gray-200 hover:bg-gray-100 transition-colors"
+        aria-label={t("provider.settings")}
+        aria-expanded={isOpen}
+      >
+        <IoSettingsOutline className="size-4" />
+        {t(`provider.${settings.provider}`)}
+        <BiChevronDown className="size-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 p-4 space-y-3 text-left">
+          <label className="block text-xs font-medium text-gray-600">
+            {t("provider.backend")}
+            <select
+              className={`${inputClassName} mt-1`}
+              value={draft.provider}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  provider: e.target.value as ProviderSettings["provider"],
+                })
+              }
+            >
+              <option value="chrome">{t("provider.chrome")}</option>
+              <option value="http">{t("provider.http")}</option>
+            </select>
+          </label>
+
+          {draft.provider === "http" && (
+            <>
+              <label className="block text-xs font-medium text-gray-600">
+                {t("provider.serverType")}
+                <select
+                  className={`${inputClassName} mt-1`}
+                  value={draft.http.dialect}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      http: {
+                        ...draft.http,
+                        dialect: e.target.value as HttpDialect,
+                      },
+                    })
+                  }
+                >
+                  <option value="libretranslate">LibreTranslate</option>
+                  <option value="openai">{t("provider.openai")}</option>
+                </select>
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                {t("provider.endpoint")}
+                <input
+                  type="url"
+                  className={`${inputClassName} mt-1`}
+                  value={draft.http.baseUrl}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      http: { ...draft.http, baseUrl: e.target.value },
+                    })
+                  }
+                />
+              </label>
+              {draft.http.dialect === "openai" && (
+                <label className="block text-xs font-medium text-gray-600">
+                  {t("provider.model")}
+                  <input
+                    className={`${inputClassName} mt-1`}
+                    value={draft.http.model ?? ""}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        http: { ...draft.http, model: e.target.value },
+                      })
+                    }
+                  />
+                </label>
+              )}
+              <label className="block text-xs font-medium text-gray-600">
+                {t("provider.apiKey")}
+                <input
+                  type="password"
+                  className={`${inputClassName} mt-1`}
+                  value={draft.http.apiKey ?? ""}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      http: { ...draft.http, apiKey: e.target.value },
+                    })
+                  }
+                />
+              </label>
+            </>
+          )}
+
+          <button
+            onClick={apply}
+            className="w-full inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+          >
+            {t("provider.apply")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ProviderSelector;
@@ -0,0 +1,25 @@
+import { BiRefresh } from "react-icons/bi";
+import { useI18n } from "../hooks/useI18n";
+
+interface RecheckButtonProps {
+  isChecking: boolean;
+  onRecheck: () => void;
+}
+
+function RecheckButton({ isChecking, onRecheck }: RecheckButtonProps) {
+  const { t } = useI18n();
+
+  return (
+    <button
+      onClick={onRecheck}
+      disabled={isChecking}
+      className="inline-flex gap-1.5 items-center px-3.5 py-1.5 rounded-full text-xs font-medium bg-white text-indigo-700 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-60 transition-colors"
+      aria-label={t("recheck.label")}
+    >
+      <BiRefresh className={`size-4 ${isChecking ? "animate-spin" : ""}`} />
+      {isChecking ? t("recheck.checking") : t("recheck.button")}
+    </button>
+  );
+}
+
+export default RecheckButton;
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { BiSearch } from "react-icons/bi";
+import { IoWarningOutline } from "react-icons/io5";
+import { useI18n } from "../hooks/useI18n";
+import type { DetectedLanguage } from "../lib/ai";
+import {
+  candidateLanguages,
+  displayLanguageName,
+  formatConfidence,
+  isLowConfidence,
+} from "../lib/languages";
+
+interface SourceLanguagePickerProps {
+  language: string | null;
+  detected: DetectedLanguage[];
+  overridden: boolean;
+  onChange: (language: string) => void;
+}
+
+function SourceLanguagePicker({
+  language,
+  detected,
+  overridden,
+  onChange,
+}: SourceLanguagePickerProps) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", closeOnOutsideClick);
+    return () => document.removeEventListener("mousedown", closeOnOutsideClick);
+  }, [isOpen]);
+
+  const select = (code: string) => {
+    setIsOpen(false);
+    setQuery("");
+    onChange(code);
+  };
+
+  const top = detected[0];
+  const isUncertain = isLowConfidence(detected, overridden);
+
+  const needle = query.trim().toLowerCase();
+  const others = candidateLanguages
+    .map((code) => ({ code, name: displayLanguageName(code, locale) }))
+    .filter(
+      ({ code, name }) =>
+        !needle ||
+        name.toLowerCase().includes(needle) ||
+        code.toLowerCase().startsWith(needle)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name, locale));
+  const languageName = language
+    ? displayLanguageName(language, locale)
+    : t("source.unknown");
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`inline-flex items-center gap-1 px-2 py-1 rounded-md ${
+          isUncertain || !language
+            ? "bg-amber-50 text-amber-800 hover:bg-amber-100"
+            : "bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+        }`}
+        aria-label={t("source.change")}
+        aria-expanded={isOpen}
+      >
+        {(isUncertain || !language) && (
+          <IoWarningOutline className="size-3.5" />
+        )}
+        {overridden
+          ? t("source.set", { language: languageName })
+          : t("source.detected", { language: languageName })}
+        {!overridden && top && top.language === language && (
+          <span className="opacity-75">
+            · {formatConfidence(top.confidence)}
+          </span>
+        )}
+        {overridden && (
+          <span className="opacity-75">{t("source.setManually")}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-10 mt-2 w-64 bg-white rounded-xl shadow-lg border border-gray-100 text-sm">
+          {detected.length > 0 && (
+            <div className="p-1 border-b border-gray-100">
+              <p className="px-3 pt-2 pb-1 text-xs font-medium text-gray-500">
+                {t("source.detectedHeading")}
+              </p>
+              {detected.map((candidate) => (
+                <button
+                  key={candidate.language}
+                  onClick={() => select(candidate.language)}
+                  className={`w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-left hover:bg-gray-50 ${
+                    candidate.language === language
+                      ? "text-indigo-700 font-medium"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {displayLanguageName(candidate.language, locale)}
+                  <span className="text-xs text-gray-400">
+                    {formatConfidence(candidate.confidence)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="relative p-2">
+            <BiSearch className="absolute top-0 bottom-0 my-auto left-5 size-4 text-gray-400" />
+            <input
+              type="search"
+              className="block w-full pl-9 pr-3 py-2 text-sm border border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+              placeholder={t("source.search")}
+              aria-label={t("source.searchLabel")}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <div className="max-h-48 overflow-auto p-1 pt-0">
+            {others.map(({ code, name }) => (
+              <button
+                key={code}
+                onClick={() => select(code)}
+                className={`w-full px-3 py-1.5 rounded-lg text-left hover:bg-gray-50 ${
+                  code === language
+                    ? "text-indigo-700 font-medium"
+                    : "text-gray-700"
+                }`}
+              >
+                {name} <span className="text-xs text-gray-400">{code}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SourceLanguagePicker;
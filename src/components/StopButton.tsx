@@ -0,0 +1,23 @@
+import { MdStop } from "react-icons/md";
+import { useI18n } from "../hooks/useI18n";
+
+interface StopButtonProps {
+  onStop: () => void;
+}
+
+function StopButton({ onStop }: StopButtonProps) {
+  const { t } = useI18n();
+
+  return (
+    <button
+      onClick={onStop}
+      className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md text-red-600 bg-white border border-red-200 hover:bg-red-50 transition-colors"
+      aria-label={t("stop.label")}
+    >
+      <MdStop className="size-4" />
+      {t("stop.button")}
+    </button>
+  );
+}
+
+export default StopButton;
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { IoOptionsOutline } from "react-icons/io5";
+import { useI18n } from "../hooks/useI18n";
+import {
+  defaultSummaryOptions,
+  summaryFormats,
+  summaryLengths,
+  summaryTypes,
+  type SummarizeOptions,
+} from "../lib/ai";
+
+interface SummaryOptionsPopoverProps {
+  disabled?: boolean;
+  onSummarize: (options: SummarizeOptions) => void;
+}
+
+const inputClassName =
+  "block w-full mt-1 px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white shadow-sm outline-none focus:border-indigo-500 focus:ring-indigo-500";
+
+function SummaryOptionsPopover({
+  disabled,
+  onSummarize,
+}: SummaryOptionsPopoverProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<SummarizeOptions>(
+    defaultSummaryOptions
+  );
+
+  const submit = () => {
+    onSummarize(options);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="inline-flex items-center p-2 border border-indigo-200 rounded-lg text-indigo-700 bg-white hover:bg-indigo-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        aria-label={t("summaryOptions.label")}
+        aria-expanded={isOpen}
+      >
+        <IoOptionsOutline className="size-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-10 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 p-4 space-y-3">
+          <label className="block text-xs font-medium text-gray-600">
+            {t("summaryOptions.type")}
+            <select
+              className={inputClassName}
+              value={options.type}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  type: e.target.value as SummarizeOptions["type"],
+                })
+              }
+            >
+              {summaryTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {t(type.label)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs font-medium text-gray-600">
+              {t("summaryOptions.length")}
+              <select
+                className={inputClassName}
+                value={options.length}
+                onChange={(e) =>
+                  setOptions({
+                    ...options,
+                    length: e.target.value as SummarizeOptions["length"],
+                  })
+                }
+              >
+                {summaryLengths.map((length) => (
+                  <option key={length.value} value={length.value}>
+                    {t(length.label)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-gray-600">
+              {t("summaryOptions.format")}
+              <select
+                className={inputClassName}
+                value={options.format}
+                onChange={(e) =>
+                  setOptions({
+                    ...options,
+                    format: e.target.value as SummarizeOptions["format"],
+                  })
+                }
+              >
+                {summaryFormats.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {t(format.label)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs font-medium text-gray-600">
+            {t("summaryOptions.context")}
+            <textarea
+              rows={2}
+              className={`${inputClassName} resize-y`}
+              placeholder={t("summaryOptions.contextPlaceholder")}
+              value={options.sharedContext ?? ""}
+              onChange={(e) =>
+                setOptions({ ...options, sharedContext: e.target.value })
+              }
+            />
+          </label>
+          <button
+            onClick={submit}
+            className="w-full inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+          >
+            {t("summaryOptions.submit")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SummaryOptionsPopover;
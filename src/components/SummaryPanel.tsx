@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { BiRefresh } from "react-icons/bi";
+import { PiLightningLight } from "react-icons/pi";
+import Markdown from "./Markdown";
+import OperationErrorNotice from "./OperationErrorNotice";
+import OperationProgress from "./OperationProgress";
+import StopButton from "./StopButton";
+import SummaryOptionsPopover from "./SummaryOptionsPopover";
+import { useI18n } from "../hooks/useI18n";
+import {
+  defaultSummaryOptions,
+  describeSummaryOptions,
+  summaryKey,
+  type SummarizeOptions,
+} from "../lib/ai";
+import { displayLanguageName } from "../lib/languages";
+import { describeMemoryMatch } from "../lib/memory";
+import { summaryOperationKey } from "../lib/messageStore";
+import type { Message, OperationError, OperationStatus } from "../types";
+
+interface SummaryPanelProps {
+  message: Message;
+  // Summarize buttons only show for text longer than this
+  minLength: number;
+  canSummarize: boolean;
+  statuses: Record<string, OperationStatus>;
+  errors: Record<string, OperationError>;
+  onSummarize: (options?: SummarizeOptions) => void;
+  // Summarizes again without looking in memory
+  onResummarize: (options: SummarizeOptions) => void;
+  onStop: (key: string) => void;
+  onDismissError: (key: string) => void;
+}
+
+function SummaryPanel({
+  message,
+  minLength,
+  canSummarize,
+  statuses,
+  errors,
+  onSummarize,
+  onResummarize,
+  onStop,
+  onDismissError,
+}: SummaryPanelProps) {
+  const { locale, t } = useI18n();
+  // Markdown summaries shown as source, by summary key
+  const [rawSummaries, setRawSummaries] = useState<Record<string, boolean>>({});
+
+  const toggleRawSummary = (key: string) =>
+    setRawSummaries((prev) => ({ ...prev, [key]: !prev[key] }));
+
+  const prefix = summaryOperationKey(message.id, "");
+  const failures = Object.entries(errors).filter(([key]) =>
+    key.startsWith(prefix)
+  );
+
+  return (
+    <>
+      {message.text.length > minLength && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => onSummarize()}
+            className="inline-flex items-center px-4 py-2 border border-indigo-200 text-sm font-medium rounded-lg text-indigo-700 bg-indigo-50 hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            aria-label={t("summary.label")}
+            disabled={
+              !canSummarize ||
+              summaryKey(defaultSummaryOptions) in message.summaries
+            }
+          >
+            <PiLightningLight className="size-4 mr-2" />
+            {t("summary.button")}
+          </button>
+          <SummaryOptionsPopover
+            disabled={!canSummarize}
+            onSummarize={onSummarize}
+          />
+          {!canSummarize && (
+            <span className="text-xs text-amber-700">
+              {t("summary.unavailable")}
+            </span>
+          )}
+        </div>
+      )}
+
+      {failures.map(([key, failure]) => (
+        <OperationErrorNotice
+          key={key}
+          error={failure}
+          onDismiss={() => onDismissError(key)}
+        />
+      ))}
+
+      {/* Display summaries side by side */}
+      {Object.keys(message.summaries).length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {Object.entries(message.summaries).map(([key, summary]) => {
+            const operation = summaryOperationKey(message.id, key);
+            const memoryMatch = statuses[operation]
+              ? undefined
+              : summary.memoryMatch;
+            return (
+              <div
+                key={key}
+                className="bg-blue-50 rounded-lg p-4 border border-blue-100"
+              >
+                <div className="flex items-center text-xs font-medium text-blue-700 mb-2">
+                  <PiLightningLight className="size-4 mr-1.5" />
+                  {t("summary.title")}
+                  <span className="ml-1.5 text-blue-500">
+                    ({describeSummaryOptions(t, summary.options)}
+                    {summary.language &&
+                      summary.language !== message.language &&
+                      ` · ${t("summary.inLanguage", {
+                        language: displayLanguageName(summary.language, locale),
+                      })}`}
+                    )
+                  </span>
+                  {memoryMatch !== undefined && (
+                    <span className="ml-1.5 font-normal text-blue-500">
+                      · {describeMemoryMatch(t, memoryMatch)}
+                    </span>
+                  )}
+                  <span className="ml-auto flex items-center gap-2">
+                    {statuses[operation] && (
+                      <StopButton onStop={() => onStop(operation)} />
+                    )}
+                    {memoryMatch !== undefined && (
+                      <button
+                        onClick={() => onResummarize(summary.options)}
+                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 underline"
+                      >
+                        <BiRefresh className="size-3.5" />
+                        {t("summary.again")}
+                      </button>
+                    )}
+                    {summary.options.format === "markdown" && (
+                      <button
+                        onClick={() => toggleRawSummary(key)}
+                        className="text-blue-600 hover:text-blue-800 underline"
+                        aria-pressed={rawSummaries[key] ?? false}
+                      >
+                        {rawSummaries[key]
+                          ? t("summary.formatted")
+                          : t("summary.raw")}
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <OperationProgress
+                  status={statuses[operation]}
+                  className="text-blue-600"
+                />
+                {summary.options.sharedContext?.trim() && (
+                  <p className="text-xs text-blue-500 mb-2">
+                    {t("summary.context", {
+                      context: summary.options.sharedContext,
+                    })}
+                  </p>
+                )}
+                <div className="text-sm text-gray-800 leading-relaxed">
+                  {!summary.text ? (
+                    <span className="text-gray-400">
+                      {t("summary.running")}
+                    </span>
+                  ) : summary.options.format === "markdown" ? (
+                    <Markdown raw={rawSummaries[key]}>{summary.text}</Markdown>
+                  ) : (
+                    <p className="whitespace-pre-wrap">{summary.text}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default SummaryPanel;
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import {
+  BiColumns,
+  BiDownload,
+  BiLoaderCircle,
+  BiRefresh,
+} from "react-icons/bi";
+import { IoWarningOutline } from "react-icons/io5";
+import { MdTranslate } from "react-icons/md";
+import BilingualView from "./BilingualView";
+import HighlightedTerms from "./HighlightedTerms";
+import LanguagePicker from "./LanguagePicker";
+import OperationErrorNotice from "./OperationErrorNotice";
+import OperationProgress from "./OperationProgress";
+import StopButton from "./StopButton";
+import type { ReportError } from "../hooks/useErrorLog";
+import { useI18n } from "../hooks/useI18n";
+import type { TranslationTarget } from "../lib/ai";
+import { messageAlignment } from "../lib/alignment";
+import { glossaryTargets, type Glossary } from "../lib/glossary";
+import {
+  displayLanguageName,
+  formatConfidence,
+  isLowConfidence,
+} from "../lib/languages";
+import { describeMemoryMatch } from "../lib/memory";
+import { translationKey } from "../lib/messageStore";
+import { downloadSubtitles } from "../lib/subtitles";
+import type { Message, OperationError, OperationStatus } from "../types";
+
+interface TranslationPanelProps {
+  message: Message;
+  canTranslate: boolean;
+  glossary: Glossary;
+  statuses: Record<string, OperationStatus>;
+  errors: Record<string, OperationError>;
+  loadTargets: (sourceLanguage: string) => Promise<TranslationTarget[]>;
+  onTranslate: (languages: string[]) => void;
+  // Translates again without looking in memory
+  onRetranslate: (language: string) => void;
+  onEditSentence: (language: string, index: number, text: string) => void;
+  onSentenceReviewed: (
+    language: string,
+    index: number,
+    reviewed: boolean
+  ) => void;
+  onStop: (key: string) => void;
+  onDismissError: (key: string) => void;
+  onError: ReportError;
+}
+
+function TranslationPanel({
+  message,
+  canTranslate,
+  glossary,
+  statuses,
+  errors,
+  loadTargets,
+  onTranslate,
+  onRetranslate,
+  onEditSentence,
+  onSentenceReviewed,
+  onStop,
+  onDismissError,
+  onError,
+}: TranslationPanelProps) {
+  const { locale, t } = useI18n();
+  // Languages shown side by side with the original
+  const [sideBySide, setSideBySide] = useState<Record<string, boolean>>({});
+
+  // Languages with a card: finished, in progress or failed
+  const prefix = translationKey(message.id, "");
+  const tracked = [...Object.keys(statuses), ...Object.keys(errors)]
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length));
+  const languages = [
+    ...new Set([...Object.keys(message.translations), ...tracked]),
+  ];
+  const pending = languages.filter(
+    (language) => statuses[translationKey(message.id, language)]
+  ).length;
+
+  const handleDownload = (language: string) => {
+    if (!message.subtitles) return;
+    try {
+      downloadSubtitles(
+        t,
+        message.subtitles,
+        message.translations[language],
+        language
+      );
+    } catch (error) {
+      onError({ key: "translation.subtitleDownload" }, error);
+    }
+  };
+
+  return (
+    <>
+      {/* Translation selector */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center">
+          <LanguagePicker
+            key={message.language}
+            disabled={!canTranslate || !message.language}
+            excluded={languages}
+            sourceLanguage={message.language ?? ""}
+            loadTargets={loadTargets}
+            onSelect={onTranslate}
+          />
+          {pending > 0 && (
+            <span className="inline-flex items-center gap-1.5 ml-2 text-xs text-indigo-600">
+              <BiLoaderCircle className="animate-spin size-5" />
+              {t("translation.pending", { count: pending })}
+            </span>
+          )}
+        </div>
+        {!canTranslate ? (
+          <span className="text-xs text-amber-700">
+            {t("translation.unavailable")}
+          </span>
+        ) : (
+          <>
+            {!message.language && (
+              <span className="text-xs text-amber-700">
+                {t("translation.needsSource")}
+              </span>
+            )}
+            {isLowConfidence(
+              message.detectedLanguages,
+              message.languageOverridden
+            ) && (
+              <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+                <IoWarningOutline className="size-3.5" />
+                {t("translation.lowConfidence", {
+                  confidence: formatConfidence(
+                    message.detectedLanguages![0].confidence
+                  ),
+                  language: displayLanguageName(
+                    message.detectedLanguages![0].language,
+                    locale
+                  ),
+                })}
+              </span>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Display translations */}
+      {languages.length > 0 && (
+        <div className="space-y-3 mt-3">
+          {languages.map((langCode) => {
+            const key = translationKey(message.id, langCode);
+            const translation = message.translations[langCode];
+            const status = statuses[key];
+            const failure = errors[key];
+            const canCompare = Boolean(translation) && !status;
+            const reviewed = message.alignments?.[langCode];
+            const memoryMatch = status
+              ? undefined
+              : message.translationMatches?.[langCode];
+            return (
+              <div
+                key={langCode}
+                className="bg-purple-50 rounded-lg p-4 border border-purple-100"
+              >
+                <div className="flex items-center text-xs font-medium text-purple-700 mb-2">
+                  <MdTranslate className="size-4 mr-1.5" />
+                  {t("translation.title", {
+                    language: displayLanguageName(langCode, locale),
+                  })}
+                  {status?.state === "running" && (
+                    <BiLoaderCircle className="animate-spin size-4 ml-1.5" />
+                  )}
+                  {reviewed && (
+                    <span className="ml-1.5 font-normal text-purple-500">
+                      ·{" "}
+                      {t("translation.reviewed", {
+                        reviewed: reviewed.filter((row) => row.reviewed).length,
+                        total: reviewed.length,
+                      })}
+                    </span>
+                  )}
+                  {memoryMatch !== undefined && (
+                    <span className="ml-1.5 font-normal text-purple-500">
+                      · {describeMemoryMatch(t, memoryMatch)}
+                    </span>
+                  )}
+                  <span className="ml-auto flex items-center gap-2">
+                    {status && <StopButton onStop={() => onStop(key)} />}
+                    {memoryMatch !== undefined && (
+                      <button
+                        onClick={() => onRetranslate(langCode)}
+                        className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-800 underline"
+                      >
+                        <BiRefresh className="size-3.5" />
+                        {t("translation.again")}
+                      </button>
+                    )}
+                    {canCompare && (
+                      <button
+                        onClick={() =>
+                          setSideBySide((prev) => ({
+                            ...prev,
+                            [langCode]: !prev[langCode],
+                          }))
+                        }
+                        className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-800 underline"
+                        aria-pressed={sideBySide[langCode] ?? false}
+                      >
+                        <BiColumns className="size-3.5" />
+                        {t("translation.sideBySide")}
+                      </button>
+                    )}
+                    {message.subtitles &&
+                      translation &&
+                      !status &&
+                      !failure && (
+                        <button
+                          onClick={() => handleDownload(langCode)}
+                          className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-800 underline"
+                        >
+                          <BiDownload className="size-3.5" />
+                          {t("translation.download", {
+                            format: message.subtitles.format,
+                          })}
+                        </button>
+                      )}
+                  </span>
+                </div>
+                <OperationProgress
+                  status={status}
+                  className="text-purple-600"
+                />
+                {failure && (
+                  <div className="mb-2">
+                    <OperationErrorNotice
+                      error={failure}
+                      onDismiss={() => onDismissError(key)}
+                    />
+                  </div>
+                )}
+                {canCompare && sideBySide[langCode] ? (
+                  <BilingualView
+                    rows={messageAlignment(message, langCode)}
+                    sourceLanguage={message.language}
+                    targetLanguage={langCode}
+                    onEdit={(index, text) =>
+                      onEditSentence(langCode, index, text)
+                    }
+                    onReviewedChange={(index, reviewed) =>
+                      onSentenceReviewed(langCode, index, reviewed)
+                    }
+                  />
+                ) : (
+                  (translation || !failure) && (
+                    <p className="text-sm text-gray-800 leading-relaxed">
+                      {translation ? (
+                        <HighlightedTerms
+                          text={translation}
+                          terms={
+                            message.language
+                              ? glossaryTargets(
+                                  glossary,
+                                  message.language,
+                                  langCode
+                                )
+                              : []
+                          }
+                        />
+                      ) : (
+                        <span className="text-gray-400">
+                          {status?.state === "queued"
+                            ? t("translation.queued")
+                            : t("translation.running")}
+                        </span>
+                      )}
+                    </p>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default TranslationPanel;
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { BiX } from "react-icons/bi";
+import {
+  PiArrowBendUpLeft,
+  PiPencilSimpleLine,
+  PiQuestion,
+} from "react-icons/pi";
+import OperationErrorNotice from "./OperationErrorNotice";
+import OperationProgress from "./OperationProgress";
+import StopButton from "./StopButton";
+import { useI18n } from "../hooks/useI18n";
+import { localize } from "../lib/i18n";
+import type { ProviderCapabilities } from "../lib/ai";
+import { generationKey } from "../lib/messageStore";
+import {
+  describeGenerated,
+  generatedKey,
+  rewriteStyles,
+  type GenerateRequest,
+} from "../lib/writingActions";
+import type { Message, OperationError, OperationStatus } from "../types";
+
+interface WritingPanelProps {
+  message: Message;
+  capabilities: ProviderCapabilities;
+  statuses: Record<string, OperationStatus>;
+  errors: Record<string, OperationError>;
+  onGenerate: (request: GenerateRequest) => void;
+  onRemove: (key: string) => void;
+  onStop: (key: string) => void;
+  onDismissError: (key: string) => void;
+}
+
+const chipClassName =
+  "inline-flex items-center gap-1.5 px-3 py-1.5 border border-teal-200 text-xs font-medium rounded-lg text-teal-700 bg-teal-50 hover:bg-teal-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 transition-colors disabled:opacity-60 disabled:cursor-not-allowed";
+
+// Rewrites, a draft reply and answers to questions about the message, from
+// the Rewriter, Writer and Prompt APIs
+function WritingPanel({
+  message,
+  capabilities,
+  statuses,
+  errors,
+  onGenerate,
+  onRemove,
+  onStop,
+  onDismissError,
+}: WritingPanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isAsking, setIsAsking] = useState(false);
+  const [question, setQuestion] = useState("");
+
+  const canRewrite = capabilities.rewrite !== "no";
+  const canWrite = capabilities.write !== "no";
+  const canPrompt = capabilities.prompt !== "no";
+  if (!canRewrite && !canWrite && !canPrompt) return null;
+
+  const generated = message.generated ?? {};
+  const isBusy = (request: GenerateRequest) =>
+    Boolean(statuses[generationKey(message.id, generatedKey(request))]);
+
+  const prefix = generationKey(message.id, "");
+  const failures = Object.entries(errors).filter(([key]) =>
+    key.startsWith(prefix)
+  );
+
+  const handleAsk = () => {
+    if (!question.trim()) return;
+    onGenerate({ kind: "answer", question: question.trim() });
+    setQuestion("");
+    setIsAsking(false);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        {rewriteStyles.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onGenerate({ kind: value })}
+            className={chipClassName}
+            disabled={!canRewrite || isBusy({ kind: value })}
+          >
+            <PiPencilSimpleLine className="size-4" />
+            {t(label)}
+          </button>
+        ))}
+        <button
+          onClick={() => onGenerate({ kind: "reply" })}
+          className={chipClassName}
+          disabled={!canWrite || isBusy({ kind: "reply" })}
+        >
+          <PiArrowBendUpLeft className="size-4" />
+          {t("writing.reply")}
+        </button>
+        <button
+          onClick={() => setIsAsking((prev) => !prev)}
+          className={chipClassName}
+          disabled={!canPrompt}
+          aria-expanded={isAsking}
+        >
+          <PiQuestion className="size-4" />
+          {t("writing.ask")}
+        </button>
+      </div>
+
+      {isAsking && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAsk();
+          }}
+        >
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setIsAsking(false);
+            }}
+            placeholder={t("writing.questionPlaceholder")}
+            className="flex-1 px-3 py-1.5 text-sm border border-teal-200 rounded-lg outline-none focus:border-teal-500"
+            aria-label={t("writing.question")}
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="px-3 py-1.5 text-xs font-medium rounded-lg text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-60 disabled:cursor-not-allowed"
+            disabled={!question.trim()}
+          >
+            {t("writing.askButton")}
+          </button>
+        </form>
+      )}
+
+      {failures.map(([key, failure]) => (
+        <OperationErrorNotice
+          key={key}
+          error={failure}
+          onDismiss={() => onDismissError(key)}
+        />
+      ))}
+
+      {Object.keys(generated).length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {Object.entries(generated).map(([key, result]) => {
+            const operation = generationKey(message.id, key);
+            return (
+              <div
+                key={key}
+                className="bg-teal-50 rounded-lg p-4 border border-teal-100"
+              >
+                <div className="flex items-center text-xs font-medium text-teal-700 mb-2">
+                  {result.kind === "reply" ? (
+                    <PiArrowBendUpLeft className="size-4 mr-1.5 shrink-0" />
+                  ) : result.kind === "answer" ? (
+                    <PiQuestion className="size-4 mr-1.5 shrink-0" />
+                  ) : (
+                    <PiPencilSimpleLine className="size-4 mr-1.5 shrink-0" />
+                  )}
+                  {localize(i18n, describeGenerated(result))}
+                  <span className="ml-auto flex items-center gap-2">
+                    {statuses[operation] ? (
+                      <StopButton onStop={() => onStop(operation)} />
+                    ) : (
+                      <button
+                        onClick={() => onRemove(key)}
+                        className="p-0.5 rounded text-teal-500 hover:text-teal-800 hover:bg-teal-100"
+                        aria-label={t("common.remove", {
+                          name: localize(i18n, describeGenerated(result)),
+                        })}
+                      >
+                        <BiX className="size-4" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <OperationProgress
+                  status={statuses[operation]}
+                  className="text-teal-600"
+                />
+                <p className="text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+                  {result.text || (
+                    <span className="text-gray-400">
+                      {t("writing.running")}
+                    </span>
+                  )}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default WritingPanel;
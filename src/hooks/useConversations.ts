@@ -0,0 +1,170 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type SetStateAction,
+} from "react";
+import {
+  deleteConversation as deleteStoredConversation,
+  listConversations,
+  saveConversation,
+} from "../lib/storage/conversations";
+import type { Translate } from "../lib/i18n";
+import type { Conversation, Message } from "../types";
+
+const SAVE_DELAY = 400;
+const TITLE_LENGTH = 40;
+const NO_MESSAGES: Message[] = [];
+
+const newConversation = (): Conversation => ({
+  id: Date.now().toString(),
+  title: "",
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  messages: [],
+});
+
+export const conversationTitle = (t: Translate, conversation: Conversation) =>
+  conversation.title || t("sidebar.untitled");
+
+const titleFromMessages = (messages: Message[]) => {
+  const text = messages[0]?.text.trim().replace(/\s+/g, " ") ?? "";
+  return text.length > TITLE_LENGTH
+    ? `${text.slice(0, TITLE_LENGTH).trimEnd()}…`
+    : text;
+};
+
+// Keeps every conversation in memory, persists changes to IndexedDB and
+// exposes the active conversation's messages like a useState pair.
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const dirtyIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listConversations()
+      .catch((error) => {
+        console.error("Failed to load conversation history:", error);
+        return [];
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        const initial = stored.length > 0 ? stored : [newConversation()];
+        setConversations(initial);
+        setActiveId(initial[0].id);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (dirtyIds.current.size === 0) return;
+
+    // Debounced so streamed output doesn't write on every token
+    const timer = setTimeout(() => {
+      dirtyIds.current.forEach((id) => {
+        const conversation = conversations.find((c) => c.id === id);
+        if (!conversation) return;
+        saveConversation(conversation).catch((error) =>
+          console.error("Failed to save conversation:", error)
+        );
+      });
+      dirtyIds.current.clear();
+    }, SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [conversations]);
+
+  const updateConversation = useCallback(
+    (id: string, update: (conversation: Conversation) => Conversation) => {
+      dirtyIds.current.add(id);
+      setConversations((prev) =>
+        prev.map((conversation) =>
+          conversation.id === id
+            ? { ...update(conversation), updatedAt: Date.now() }
+            : conversation
+        )
+      );
+    },
+    []
+  );
+
+  // Bound to the conversation that was active when the caller rendered, so
+  // results that arrive after switching still land in the right place.
+  const setMessages = useCallback(
+    (action: SetStateAction<Message[]>) => {
+      if (!activeId) return;
+      updateConversation(activeId, (conversation) => {
+        const messages =
+          typeof action === "function" ? action(conversation.messages) : action;
+        return {
+          ...conversation,
+          messages,
+          title: conversation.title || titleFromMessages(messages),
+        };
+      });
+    },
+    [activeId, updateConversation]
+  );
+
+  const createConversation = () => {
+    const conversation = newConversation();
+    dirtyIds.current.add(conversation.id);
+    setConversations((prev) => [conversation, ...prev]);
+    setActiveId(conversation.id);
+  };
+
+  const importConversation = (imported: Omit<Conversation, "id">) => {
+    const conversation = { ...imported, id: Date.now().toString() };
+    dirtyIds.current.add(conversation.id);
+    setConversations((prev) => [conversation, ...prev]);
+    setActiveId(conversation.id);
+  };
+
+  const renameConversation = (id: string, title: string) =>
+    updateConversation(id, (conversation) => ({
+      ...conversation,
+      title: title.trim(),
+    }));
+
+  const deleteConversation = (id: string) => {
+    dirtyIds.current.delete(id);
+    deleteStoredConversation(id).catch((error) =>
+      console.error("Failed to delete conversation:", error)
+    );
+
+    const remaining = conversations.filter((c) => c.id !== id);
+    if (remaining.length === 0) {
+      const conversation = newConversation();
+      dirtyIds.current.add(conversation.id);
+      setConversations([conversation]);
+      setActiveId(conversation.id);
+      return;
+    }
+    setConversations(remaining);
+    if (id === activeId) setActiveId(remaining[0].id);
+  };
+
+  const activeConversation =
+    conversations.find((conversation) => conversation.id === activeId) ?? null;
+
+  return {
+    conversations,
+    activeConversation,
+    messages: activeConversation?.messages ?? NO_MESSAGES,
+    setMessages,
+    isLoaded,
+    selectConversation: setActiveId,
+    createConversation,
+    importConversation,
+    renameConversation,
+    deleteConversation,
+  };
+};
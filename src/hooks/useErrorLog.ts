@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { toAIError } from "../lib/ai";
+import type { LocalizedText } from "../lib/i18n";
+import type { OperationError } from "../types";
+
+const MAX_LOGGED_ERRORS = 50;
+
+export type ReportError = (
+  title: LocalizedText,
+  error: unknown,
+  target?: Pick<OperationError, "operation" | "messageId" | "retry">
+) => void;
+
+// Every failure goes to the error log. Failures of a message's operation are
+// also kept per operation key for its card; anything else becomes the toast.
+export const useErrorLog = () => {
+  const [error, setError] = useState<LocalizedText | string | null>(null);
+  const [errorLog, setErrorLog] = useState<OperationError[]>([]);
+  // Latest unresolved failure per operation key, shown on its card
+  const [operationErrors, setOperationErrors] = useState<
+    Record<string, OperationError>
+  >({});
+
+  const reportError: ReportError = (title, error, target) => {
+    const aiError = toAIError(error);
+    const entry: OperationError = {
+      id: crypto.randomUUID(),
+      title,
+      kind: aiError.kind,
+      message: aiError.text,
+      time: Date.now(),
+      ...target,
+    };
+    setErrorLog((prev) => [entry, ...prev].slice(0, MAX_LOGGED_ERRORS));
+    if (target?.operation) {
+      setOperationErrors((prev) => ({ ...prev, [target.operation!]: entry }));
+    } else {
+      setError({
+        key: "error.failedWith",
+        params: { title, message: aiError.text },
+      });
+    }
+  };
+
+  const clearOperationError = (key: string) =>
+    setOperationErrors((prev) => {
+      if (!(key in prev)) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+  const dismissLoggedError = (entry: OperationError) => {
+    setErrorLog((prev) => prev.filter((logged) => logged.id !== entry.id));
+    if (entry.operation && operationErrors[entry.operation]?.id === entry.id) {
+      clearOperationError(entry.operation);
+    }
+  };
+
+  const clearErrorLog = () => {
+    setErrorLog([]);
+    setOperationErrors({});
+  };
+
+  return {
+    error,
+    setError,
+    errorLog,
+    operationErrors,
+    reportError,
+    clearOperationError,
+    dismissLoggedError,
+    clearErrorLog,
+  };
+};
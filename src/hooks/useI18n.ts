@@ -0,0 +1,7 @@
+import { createContext, useContext } from "react";
+import { createI18n, type I18n } from "../lib/i18n";
+
+// English until App provides the chosen locale
+export const I18nContext = createContext<I18n>(createI18n("en"));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,34 @@
+import {
+  useCallback,
+  useReducer,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import {
+  isStatusAction,
+  messagesReducer,
+  statusReducer,
+  type MessageStoreAction,
+} from "../lib/messageStore";
+import type { Message } from "../types";
+
+// Applies store actions: message changes go to the active conversation's
+// messages, operation statuses are kept in memory only.
+export const useMessageStore = (
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  const [statuses, dispatchStatus] = useReducer(statusReducer, {});
+
+  const dispatch = useCallback(
+    (action: MessageStoreAction) => {
+      if (isStatusAction(action)) {
+        dispatchStatus(action);
+      } else {
+        setMessages((messages) => messagesReducer(messages, action));
+      }
+    },
+    [setMessages]
+  );
+
+  return { statuses, dispatch };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getDownloads, subscribeDownloads } from "../lib/ai";
+
+export const useModelDownloads = () =>
+  useSyncExternalStore(subscribeDownloads, getDownloads);
@@ -0,0 +1,718 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  AIError,
+  defaultSummaryOptions,
+  isAbortError,
+  summarizeInChunks,
+  summaryKey,
+  summaryTitle,
+  translateInChunks,
+  translateSegments,
+  type Capability,
+  type ChunkProgress,
+  type DetectedLanguage,
+  type ProviderCapabilities,
+  type SummarizeOptions,
+  type TextAIProvider,
+} from "../lib/ai";
+import type { Command } from "../lib/commands";
+import { readDocuments } from "../lib/documents";
+import { glossaryFor, protectTerms, type Glossary } from "../lib/glossary";
+import type { I18n } from "../lib/i18n";
+import { displayLanguageName } from "../lib/languages";
+import {
+  recall,
+  recallSegments,
+  recallTranslation,
+  remember,
+  rememberTranslation,
+  summaryTarget,
+  translationTarget,
+  type TranslationMatch,
+} from "../lib/memory";
+import {
+  detectionKey,
+  generationKey,
+  isStatusAction,
+  messagesReducer,
+  summaryOperationKey,
+  translationKey,
+  translationSnapshot,
+  type MessageStoreAction,
+} from "../lib/messageStore";
+import { createModelQueue } from "../lib/modelQueue";
+import type { Preferences } from "../lib/preferences";
+import { createTaskQueue } from "../lib/queue";
+import { joinCueTexts } from "../lib/subtitles";
+import {
+  REPLY_TASK,
+  describeGenerated,
+  generatedKey,
+  type GenerateRequest,
+} from "../lib/writingActions";
+import type { Message, OperationStatus } from "../types";
+import type { ReportError } from "./useErrorLog";
+
+// Translations running at once when several languages are requested
+const MAX_CONCURRENT_TRANSLATIONS = 2;
+
+// Set `useMemory: false` to call the model even when the text was
+// translated or summarized before
+interface OperationOptions {
+  useMemory?: boolean;
+}
+
+interface TextOperationsOptions {
+  provider: TextAIProvider;
+  capabilities: ProviderCapabilities | null;
+  preferences: Preferences;
+  glossary: Glossary;
+  // Titles of reported errors and progress labels are in its locale
+  i18n: I18n;
+  messages: Message[];
+  dispatch: (action: MessageStoreAction) => void;
+  reportError: ReportError;
+  clearOperationError: (key: string) => void;
+}
+
+// Detection, summaries and translations against the selected provider. Each
+// operation reports its status and results through the message store and
+// can be stopped by key.
+export const useTextOperations = ({
+  provider,
+  capabilities,
+  preferences,
+  glossary,
+  i18n: { locale, t },
+  messages,
+  dispatch: dispatchToStore,
+  reportError,
+  clearOperationError,
+}: TextOperationsOptions) => {
+  const controllers = useRef<Record<string, AbortController>>({});
+  // Messages as of the last render plus changes dispatched since, so an
+  // operation started right after adding a message can find it
+  const latestMessages = useRef(messages);
+  const [translationQueue] = useState(() =>
+    createTaskQueue(MAX_CONCURRENT_TRANSLATIONS)
+  );
+  const [modelQueue] = useState(() => createModelQueue());
+
+  useEffect(() => {
+    latestMessages.current = messages;
+  }, [messages]);
+
+  const dispatch = (action: MessageStoreAction) => {
+    if (!isStatusAction(action)) {
+      latestMessages.current = messagesReducer(latestMessages.current, action);
+    }
+    dispatchToStore(action);
+  };
+
+  const findMessage = (messageId: string) =>
+    latestMessages.current.find((message) => message.id === messageId);
+
+  const canDetect = capabilities !== null && capabilities.detect !== "no";
+  const canTranslate = capabilities !== null && capabilities.translate !== "no";
+
+  const startOperation = (
+    key: string,
+    state: OperationStatus["state"] = "running"
+  ) => {
+    // A re-run replaces the earlier run on the same key
+    controllers.current[key]?.abort();
+    const controller = new AbortController();
+    controllers.current[key] = controller;
+    dispatch({ type: "setStatus", key, status: { state } });
+    clearOperationError(key);
+    return controller;
+  };
+
+  // Leaves the key alone when a newer run has taken it over
+  const finishOperation = (key: string, controller: AbortController) => {
+    if (controllers.current[key] !== controller) return;
+    delete controllers.current[key];
+    dispatch({ type: "setStatus", key, status: undefined });
+  };
+
+  const reportProgress = (key: string, label: string) => (p: ChunkProgress) =>
+    dispatch({ type: "setProgress", key, progress: { ...p, label } });
+
+  const stopOperation = (key: string) => controllers.current[key]?.abort();
+
+  // Runs `task` once the model behind `capability` can be used. While one
+  // request downloads a model, the others wait with a "waiting" status.
+  const whenModelReady = async <T>(
+    key: string,
+    capability: Capability,
+    signal: AbortSignal,
+    task: () => Promise<T>
+  ) => {
+    let waited = false;
+    const release = await modelQueue.acquire(capability, {
+      availability: capabilities?.[capability] ?? "readily",
+      isReady: async () =>
+        (await provider.capabilities())[capability] === "readily",
+      signal,
+      onWait: () => {
+        waited = true;
+        dispatch({ type: "setStatus", key, status: { state: "waiting" } });
+      },
+    });
+    try {
+      if (waited) {
+        dispatch({ type: "setStatus", key, status: { state: "running" } });
+      }
+      return await task();
+    } finally {
+      release();
+    }
+  };
+
+  const detectLanguage = async (
+    messageId: string,
+    text: string
+  ): Promise<DetectedLanguage[]> => {
+    const key = detectionKey(messageId);
+    clearOperationError(key);
+    try {
+      return await provider.detect(text);
+    } catch (error) {
+      console.error("Language detection failed:", error);
+      reportError({ key: "operation.detection" }, error, {
+        operation: key,
+        messageId,
+        retry: () => redetectLanguage(messageId, text),
+      });
+      return [];
+    }
+  };
+
+  const redetectLanguage = async (messageId: string, text: string) => {
+    const detectedLanguages = await detectLanguage(messageId, text);
+    dispatch({ type: "setDetectedLanguages", messageId, detectedLanguages });
+  };
+
+  const summarizeText = async (
+    messageId: string,
+    text: string,
+    options: SummarizeOptions = defaultSummaryOptions,
+    { useMemory = true }: OperationOptions = {}
+  ) => {
+    const key = summaryOperationKey(messageId, summaryKey(options));
+    const controller = startOperation(key);
+    const setSummary = (
+      summary: string | undefined,
+      language?: string,
+      memoryMatch?: number
+    ) =>
+      dispatch({
+        type: "setSummary",
+        messageId,
+        options,
+        text: summary,
+        language,
+        memoryMatch,
+      });
+    // A summary being redone stays until new text arrives, and comes back
+    // if the new one fails or is stopped
+    const previous = findMessage(messageId)?.summaries[summaryKey(options)];
+    const showPartial = (partial: string, language?: string) => {
+      if (partial.trim()) setSummary(partial, language);
+    };
+
+    try {
+      // Show the card right away so streamed text has somewhere to go
+      if (!previous) setSummary("");
+
+      const message = findMessage(messageId);
+      const sourceLanguage =
+        message?.language && message.language !== "unknown"
+          ? message.language
+          : undefined;
+      const { signal } = controller;
+
+      // Summarize directly when the summarizer understands the source
+      // language, otherwise go through English
+      const viaEnglish =
+        sourceLanguage !== undefined &&
+        sourceLanguage !== "en" &&
+        (await provider.summarizeLanguageAvailable(sourceLanguage)) === "no";
+      const translateBack = viaEnglish && preferences.translateSummaryBack;
+
+      // Summaries are remembered by source text, language, provider, the
+      // language they come out in and options
+      const memoryLanguage = sourceLanguage ?? "und";
+      const memoryTarget = summaryTarget(
+        provider.id,
+        viaEnglish && !translateBack ? "en" : memoryLanguage,
+        options
+      );
+      const recalled =
+        useMemory &&
+        (await recall("summary", memoryLanguage, memoryTarget, text));
+      if (recalled) {
+        setSummary(
+          recalled.result,
+          recalled.resultLanguage,
+          recalled.similarity
+        );
+        return;
+      }
+
+      let input = text;
+      let inputLanguage = sourceLanguage;
+      if (viaEnglish && sourceLanguage) {
+        if (!canTranslate) {
+          throw new AIError("unavailable", {
+            key: "operation.summaryNeedsTranslator",
+            params: { language: { language: sourceLanguage } },
+          });
+        }
+        input = await whenModelReady(key, "translate", signal, () =>
+          translateInChunks(provider, text, sourceLanguage, "en", {
+            signal,
+            onProgress: reportProgress(
+              key,
+              t("progress.translatingTo", {
+                language: displayLanguageName("en", locale),
+              })
+            ),
+          })
+        );
+        inputLanguage = "en";
+      }
+
+      let result = await whenModelReady(key, "summarize", signal, () =>
+        summarizeInChunks(
+          provider,
+          input,
+          { ...options, inputLanguage, outputLanguage: inputLanguage },
+          {
+            signal,
+            onUpdate: (partial) => showPartial(partial, inputLanguage),
+            onProgress: reportProgress(key, t("progress.summarizing")),
+          }
+        )
+      );
+      let summaryLanguage = inputLanguage;
+
+      if (translateBack && sourceLanguage) {
+        const summary = result;
+        result = await whenModelReady(key, "translate", signal, () =>
+          translateInChunks(provider, summary, "en", sourceLanguage, {
+            signal,
+            onUpdate: (partial) => showPartial(partial, sourceLanguage),
+            onProgress: reportProgress(
+              key,
+              t("progress.translatingTo", {
+                language: displayLanguageName(sourceLanguage, locale),
+              })
+            ),
+          })
+        );
+        summaryLanguage = sourceLanguage;
+      }
+
+      setSummary(result, summaryLanguage);
+      await remember(
+        "summary",
+        memoryLanguage,
+        memoryTarget,
+        [{ text, result }],
+        summaryLanguage
+      );
+    } catch (error) {
+      const aborted = isAbortError(error);
+      if (previous) {
+        // Put back the summary this one was replacing
+        setSummary(previous.text, previous.language, previous.memoryMatch);
+      } else if (aborted) {
+        // Keep a partial summary, but drop a card that never got text
+        dispatch({ type: "discardEmptySummary", messageId, options });
+      } else {
+        setSummary(undefined);
+      }
+      if (aborted) return;
+      console.error("Summarization failed:", error);
+      reportError(summaryTitle(options), error, {
+        operation: key,
+        messageId,
+        retry: () => summarizeText(messageId, text, options, { useMemory }),
+      });
+    } finally {
+      finishOperation(key, controller);
+    }
+  };
+
+  // Queued so a batch of languages doesn't load every model at once. Stop
+  // works while queued too, since the controller exists from the start.
+  const translateText = (
+    messageId: string,
+    text: string,
+    targetLanguage: string,
+    operationOptions: OperationOptions = {}
+  ) => {
+    const key = translationKey(messageId, targetLanguage);
+    const controller = startOperation(key, "queued");
+
+    let started = false;
+    controller.signal.addEventListener("abort", () => {
+      if (!started) finishOperation(key, controller);
+    });
+    translationQueue.enqueue(async () => {
+      started = true;
+      if (controller.signal.aborted) return;
+      await runTranslation(
+        messageId,
+        text,
+        targetLanguage,
+        controller,
+        operationOptions
+      );
+    });
+  };
+
+  const runTranslation = async (
+    messageId: string,
+    text: string,
+    targetLanguage: string,
+    controller: AbortController,
+    operationOptions: OperationOptions
+  ) => {
+    const { useMemory = true } = operationOptions;
+    const key = translationKey(messageId, targetLanguage);
+    dispatch({ type: "setStatus", key, status: { state: "running" } });
+    const setTranslation = (
+      translation: string | undefined,
+      memoryMatch?: TranslationMatch
+    ) =>
+      dispatch({
+        type: "setTranslation",
+        messageId,
+        language: targetLanguage,
+        text: translation,
+        memoryMatch,
+      });
+    // A translation being redone stays, with its reviewed sentences, until
+    // new text arrives, and comes back if the new one fails or is stopped
+    const original = findMessage(messageId);
+    const previous = original && translationSnapshot(original, targetLanguage);
+    const showPartial = (partial: string) => {
+      if (partial.trim()) setTranslation(partial);
+    };
+
+    try {
+      const message = findMessage(messageId);
+      if (!message || !message.language) {
+        throw new AIError("unknown", { key: "operation.noSourceLanguage" });
+      }
+
+      // Show the card right away so streamed text has somewhere to go
+      if (!previous) setTranslation("");
+
+      // Glossary terms go through the translator as placeholders
+      const terms = glossaryFor(glossary, message.language, targetLanguage);
+
+      // Memory holds the texts as the user sees them, glossary terms and all
+      let result: string;
+      let memoryMatch: TranslationMatch | undefined;
+      if (message.subtitles) {
+        // Subtitles are translated cue by cue so they keep their timing
+        const originals = message.subtitles.cues.map((cue) => cue.text);
+        const cues = originals.map((cue) => protectTerms(cue, terms));
+        const inputs = cues.map((cue) => cue.text);
+        const restoreCues = (translated: string[]) =>
+          translated.map((cue, i) => cues[i].restore(cue));
+
+        let translated =
+          useMemory &&
+          (await recallSegments(
+            provider.id,
+            message.language,
+            targetLanguage,
+            originals
+          ));
+        if (translated) {
+          memoryMatch = 1;
+        } else {
+          const sourceLanguage = message.language;
+          const output = await whenModelReady(
+            key,
+            "translate",
+            controller.signal,
+            () =>
+              translateSegments(
+                provider,
+                inputs,
+                sourceLanguage,
+                targetLanguage,
+                {
+                  signal: controller.signal,
+                  onUpdate: (partial) =>
+                    showPartial(joinCueTexts(restoreCues(partial))),
+                  onProgress: reportProgress(
+                    key,
+                    t("progress.translatingCues")
+                  ),
+                }
+              )
+          );
+          const restored = restoreCues(output);
+          await remember(
+            "translation",
+            message.language,
+            translationTarget(provider.id, targetLanguage),
+            originals.map((original, i) => ({
+              text: original,
+              result: restored[i],
+            })),
+            targetLanguage
+          );
+          translated = restored;
+        }
+        result = joinCueTexts(translated);
+      } else {
+        const { text: input, restore } = protectTerms(text, terms);
+        const recalled =
+          useMemory &&
+          (await recallTranslation(
+            provider.id,
+            text,
+            message.language,
+            targetLanguage
+          ));
+        if (recalled) {
+          result = recalled.result;
+          memoryMatch = recalled.match;
+        } else {
+          const sourceLanguage = message.language;
+          const output = await whenModelReady(
+            key,
+            "translate",
+            controller.signal,
+            () =>
+              translateInChunks(
+                provider,
+                input,
+                sourceLanguage,
+                targetLanguage,
+                {
+                  signal: controller.signal,
+                  onUpdate: (partial) => showPartial(restore(partial)),
+                  onProgress: reportProgress(key, t("progress.translating")),
+                }
+              )
+          );
+          result = restore(output);
+          await rememberTranslation(
+            provider.id,
+            text,
+            result,
+            message.language,
+            targetLanguage
+          );
+        }
+      }
+
+      setTranslation(result, memoryMatch);
+    } catch (error) {
+      // Put back the translation a re-run replaced. A first one keeps its
+      // partial text, but isn't saved if it never got any.
+      dispatch(
+        previous
+          ? {
+              type: "restoreTranslation",
+              messageId,
+              language: targetLanguage,
+              snapshot: previous,
+            }
+          : {
+              type: "discardEmptyTranslation",
+              messageId,
+              language: targetLanguage,
+            }
+      );
+      if (isAbortError(error)) return;
+      console.error("Translation failed:", error);
+      // The card stays, kept by its error, with a Retry button
+      reportError(
+        {
+          key: "operation.translation",
+          params: { language: { language: targetLanguage } },
+        },
+        error,
+        {
+          operation: key,
+          messageId,
+          retry: () =>
+            translateText(messageId, text, targetLanguage, operationOptions),
+        }
+      );
+    } finally {
+      finishOperation(key, controller);
+    }
+  };
+
+  // Rewrites, drafts a reply to or answers a question about a message. A new
+  // result replaces the previous one with the same key.
+  const generateText = async (
+    messageId: string,
+    text: string,
+    request: GenerateRequest
+  ) => {
+    const key = generatedKey(request);
+    const operation = generationKey(messageId, key);
+    const controller = startOperation(operation);
+    const setResult = (result: string | undefined) =>
+      dispatch({
+        type: "setGenerated",
+        messageId,
+        key,
+        result: result === undefined ? undefined : { ...request, text: result },
+      });
+
+    try {
+      // Show the card right away so streamed text has somewhere to go
+      setResult("");
+      const stream = { signal: controller.signal, onUpdate: setResult };
+      const capability: Capability =
+        request.kind === "reply"
+          ? "write"
+          : request.kind === "answer"
+          ? "prompt"
+          : "rewrite";
+      const result = await whenModelReady(
+        operation,
+        capability,
+        controller.signal,
+        () =>
+          request.kind === "reply"
+            ? provider.write(REPLY_TASK, text, stream)
+            : request.kind === "answer"
+            ? provider.prompt(request.question ?? "", text, stream)
+            : provider.rewrite(text, request.kind, stream)
+      );
+      setResult(result);
+    } catch (error) {
+      if (isAbortError(error)) {
+        dispatch({ type: "discardEmptyGenerated", messageId, key });
+        return;
+      }
+      console.error("Text generation failed:", error);
+      setResult(undefined);
+      reportError(describeGenerated(request), error, {
+        operation,
+        messageId,
+        retry: () => generateText(messageId, text, request),
+      });
+    } finally {
+      finishOperation(operation, controller);
+    }
+  };
+
+  // `language` sets the source language instead of the detected one
+  const addMessage = async (
+    text: string,
+    {
+      source,
+      subtitles,
+      language,
+    }: Pick<Message, "source" | "subtitles"> & { language?: string } = {}
+  ) => {
+    // Imports add several messages within the same millisecond
+    const id = crypto.randomUUID();
+    const detectedLanguages = canDetect ? await detectLanguage(id, text) : [];
+    const detected = detectedLanguages[0]?.language ?? null;
+
+    const message: Message = {
+      id,
+      text,
+      language: language ?? detected,
+      detectedLanguages,
+      languageOverridden: language !== undefined && language !== detected,
+      source,
+      subtitles,
+      summaries: {},
+      translations: {},
+    };
+    dispatch({ type: "addMessage", message });
+    return message;
+  };
+
+  // Runs a composer command on its text as a new message, or on the last
+  // message when the command has no text
+  const runCommand = async (command: Command) => {
+    const message = command.text
+      ? await addMessage(command.text, { language: command.sourceLanguage })
+      : latestMessages.current[latestMessages.current.length - 1];
+    if (!message) {
+      throw new AIError("unknown", { key: "operation.noMessageForCommand" });
+    }
+
+    if (!command.text && command.detect) {
+      // Asking again drops a source language picked by hand
+      const detectedLanguages = await detectLanguage(message.id, message.text);
+      if (detectedLanguages.length > 0) {
+        dispatch({
+          type: "setDetectedLanguages",
+          messageId: message.id,
+          detectedLanguages,
+        });
+        dispatch({
+          type: "setSourceLanguage",
+          messageId: message.id,
+          language: detectedLanguages[0].language,
+        });
+      }
+    }
+    if (!command.text && command.sourceLanguage) {
+      dispatch({
+        type: "setSourceLanguage",
+        messageId: message.id,
+        language: command.sourceLanguage,
+      });
+    }
+
+    if (command.summarize) {
+      summarizeText(message.id, message.text, command.summarize);
+    }
+    command.translateTo.forEach((language) =>
+      translateText(message.id, message.text, language)
+    );
+  };
+
+  // Adds each file's text as one or more messages. Failures are reported
+  // per file so one bad file doesn't stop the rest.
+  const importFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const documents = (await readDocuments(t, file)).filter(({ text }) =>
+          text.trim()
+        );
+        if (documents.length === 0) {
+          throw new AIError("unknown", { key: "operation.noTextInFile" });
+        }
+        for (const { text, ...imported } of documents) {
+          await addMessage(text, imported);
+        }
+      } catch (error) {
+        console.error("File import failed:", error);
+        reportError(
+          { key: "operation.import", params: { file: file.name } },
+          error
+        );
+      }
+    }
+  };
+
+  return {
+    addMessage,
+    runCommand,
+    importFiles,
+    summarizeText,
+    translateText,
+    generateText,
+    stopOperation,
+  };
+};
@@ -0,0 +1,48 @@
+import type { Translate } from "../i18n";
+import type { Capability, ProviderCapabilities, ProviderId } from "./types";
+
+export const capabilityNames: Record<Capability, string> = {
+  detect: "Language Detector API",
+  translate: "Translator API",
+  summarize: "Summarizer API",
+  rewrite: "Rewriter API",
+  write: "Writer API",
+  prompt: "Prompt API",
+};
+
+// Reported when the backend can't be reached at all
+export const noCapabilities: ProviderCapabilities = {
+  detect: "no",
+  translate: "no",
+  summarize: "no",
+  rewrite: "no",
+  write: "no",
+  prompt: "no",
+};
+
+export const missingCapabilities = (
+  capabilities: ProviderCapabilities
+): Capability[] =>
+  (Object.keys(capabilityNames) as Capability[]).filter(
+    (capability) => capabilities[capability] === "no"
+  );
+
+export const hasAnyCapability = (capabilities: ProviderCapabilities) =>
+  missingCapabilities(capabilities).length <
+  Object.keys(capabilityNames).length;
+
+// Why the app runs with limited features, naming the missing APIs
+export const describeMissingCapabilities = (
+  t: Translate,
+  providerId: ProviderId,
+  capabilities: ProviderCapabilities
+) => {
+  const missing = missingCapabilities(capabilities);
+  const params = {
+    apis: missing.map((capability) => capabilityNames[capability]).join(", "),
+    count: missing.length,
+  };
+  return providerId === "chrome"
+    ? t("capabilities.missingChrome", params)
+    : t("capabilities.missingServer", params);
+};
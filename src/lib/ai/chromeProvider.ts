@@ -0,0 +1,368 @@
+import { candidateLanguages } from "../languages";
+import {
+  finishDownload,
+  reportDownloadProgress,
+  type DownloadedModel,
+} from "./downloads";
+import { createSessionCache } from "./sessions";
+import { collectStream, type StreamOptions } from "./streaming";
+import { summaryKey } from "./summaryOptions";
+import {
+  MAX_DETECTED_LANGUAGES,
+  type Availability,
+  type Capability,
+  type ProviderCapabilities,
+  type RewriteStyle,
+  type SummarizeRequest,
+  type TextAIProvider,
+} from "./types";
+import { AIError, toAIError } from "./errors";
+import { characterQuota } from "./quota";
+import type {
+  AICapabilities,
+  AICreateMonitor,
+  AIFactory,
+  AIModel,
+  AIRequestOptions,
+  AIRewriterCreateOptions,
+  AISummarizer,
+  AITranslator,
+  ChromeAI,
+  WindowWithAI,
+} from "./chromeTypes";
+
+const getAI = (): ChromeAI | undefined => (window as WindowWithAI).ai;
+
+// Forwards a model's download events to the header progress bar.
+const trackDownload =
+  (key: string, model: DownloadedModel) => (m: AICreateMonitor) => {
+    m.addEventListener("downloadprogress", (e) => {
+      // Older builds report bytes, newer ones a 0..1 fraction.
+      reportDownloadProgress(
+        key,
+        model,
+        e.total ? e.loaded / e.total : e.loaded
+      );
+    });
+  };
+
+const createModel = async <Options, Model extends AIModel>(
+  factory: AIFactory<unknown, Options, Model>,
+  options: Options,
+  key: string,
+  downloaded: DownloadedModel
+): Promise<Model> => {
+  try {
+    const model = await factory.create({
+      ...options,
+      monitor: trackDownload(key, downloaded),
+    });
+    await model.ready;
+    return model;
+  } catch (error) {
+    // Anything unexplained while creating a model is most likely the download
+    const aiError = toAIError(error);
+    throw aiError.kind === "unknown"
+      ? new AIError("download-failed", aiError.text)
+      : aiError;
+  } finally {
+    finishDownload(key);
+  }
+};
+
+const probe = async (
+  factory: AIFactory<AICapabilities, unknown, unknown> | undefined
+): Promise<Availability> => {
+  if (!factory) return "no";
+  try {
+    const { available } = await factory.capabilities();
+    return available ?? "no";
+  } catch (error) {
+    console.error("Capability check failed:", error);
+    return "no";
+  }
+};
+
+const unavailable = (capability: Capability) =>
+  new AIError("unavailable", { key: `error.unavailable.${capability}` });
+
+// Checks a factory exists and the device can run it
+const requireFactory = async <
+  F extends AIFactory<AICapabilities, never, unknown>
+>(
+  factory: F | undefined,
+  capability: Capability
+): Promise<F> => {
+  if (!factory) throw unavailable(capability);
+  const { available } = await factory.capabilities();
+  if (available === "no") throw unavailable(capability);
+  return factory;
+};
+
+// Streams when the caller wants partial output and the model can stream
+const respond = async (
+  stream: StreamOptions,
+  once: (options: AIRequestOptions) => Promise<string>,
+  streaming?: (options: AIRequestOptions) => AsyncIterable<string>
+) => {
+  const { signal, onUpdate } = stream;
+  if (onUpdate && streaming) {
+    return collectStream(streaming({ signal }), stream);
+  }
+  const result = await once({ signal });
+  onUpdate?.(result);
+  return result;
+};
+
+const rewriteOptions: Record<RewriteStyle, AIRewriterCreateOptions> = {
+  "more-formal": { tone: "more-formal", length: "as-is" },
+  "more-casual": { tone: "more-casual", length: "as-is" },
+  shorter: { tone: "as-is", length: "shorter" },
+};
+
+export const createChromeProvider = (): TextAIProvider => {
+  const sessions = createSessionCache();
+
+  const withTranslator = async <R>(
+    sourceLanguage: string,
+    targetLanguage: string,
+    run: (translator: AITranslator) => Promise<R>
+  ): Promise<R> => {
+    const factory = getAI()?.translator;
+    if (!factory) throw unavailable("translate");
+
+    // The device and the pair are checked once, when the session is created;
+    // every chunk or cue after that reuses the cached translator
+    const key = `translator:${sourceLanguage}:${targetLanguage}`;
+    return sessions.use(
+      key,
+      async () => {
+        const capabilities = await factory.capabilities();
+        if (capabilities.available === "no") {
+          throw unavailable("translate");
+        }
+        if (
+          capabilities.languagePairAvailable(sourceLanguage, targetLanguage) ===
+          "no"
+        ) {
+          throw new AIError("unsupported-pair", {
+            key: "error.unsupportedPair",
+            params: {
+              source: { language: sourceLanguage },
+              target: { language: targetLanguage },
+            },
+          });
+        }
+        return createModel(factory, { sourceLanguage, targetLanguage }, key, {
+          capability: "translate",
+          sourceLanguage,
+          targetLanguage,
+        });
+      },
+      run
+    );
+  };
+
+  const withSummarizer = async <R>(
+    request: SummarizeRequest,
+    run: (summarizer: AISummarizer) => Promise<R>
+  ): Promise<R> => {
+    const factory = await requireFactory(getAI()?.summarizer, "summarize");
+    const { inputLanguage, outputLanguage, ...options } = request;
+    const key = `summarizer:${summaryKey(options)}:${inputLanguage ?? ""}:${
+      outputLanguage ?? ""
+    }`;
+    return sessions.use(
+      key,
+      () =>
+        createModel(
+          factory,
+          {
+            ...options,
+            sharedContext: options.sharedContext?.trim() || undefined,
+            expectedInputLanguages: inputLanguage ? [inputLanguage] : undefined,
+            outputLanguage,
+          },
+          key,
+          { capability: "summarize" }
+        ),
+      run
+    );
+  };
+
+  return {
+    id: "chrome",
+
+    async capabilities(): Promise<ProviderCapabilities> {
+      const ai = getAI();
+      const [detect, translate, summarize, rewrite, write, prompt] =
+        await Promise.all([
+          probe(ai?.languageDetector),
+          probe(ai?.translator),
+          probe(ai?.summarizer),
+          probe(ai?.rewriter),
+          probe(ai?.writer),
+          probe(ai?.languageModel),
+        ]);
+      return { detect, translate, summarize, rewrite, write, prompt };
+    },
+
+    async detect(text) {
+      const factory = await requireFactory(getAI()?.languageDetector, "detect");
+      const key = "languageDetector";
+      const results = await sessions.use(
+        key,
+        () => createModel(factory, {}, key, { capability: "detect" }),
+        (detector) => detector.detect(text)
+      );
+      return (results ?? [])
+        .filter((result) => result.detectedLanguage !== "und")
+        .slice(0, MAX_DETECTED_LANGUAGES)
+        .map((result) => ({
+          language: result.detectedLanguage,
+          confidence: result.confidence,
+        }));
+    },
+
+    async translate(text, sourceLanguage, targetLanguage, stream = {}) {
+      return withTranslator(sourceLanguage, targetLanguage, (translator) =>
+        respond(
+          stream,
+          (options) => translator.translate(text, options),
+          translator.translateStreaming &&
+            ((options) => translator.translateStreaming!(text, options))
+        )
+      );
+    },
+
+    async translationTargets(sourceLanguage) {
+      const factory = getAI()?.translator;
+      if (!factory) return [];
+
+      const capabilities = await factory.capabilities();
+      return candidateLanguages
+        .filter((language) => language !== sourceLanguage)
+        .map((language) => ({
+          language,
+          availability: capabilities.languagePairAvailable(
+            sourceLanguage,
+            language
+          ),
+        }))
+        .filter((target) => target.availability !== "no");
+    },
+
+    async summarize(text, options, stream = {}) {
+      return withSummarizer(options, (summarizer) =>
+        respond(
+          stream,
+          (options) => summarizer.summarize(text, options),
+          summarizer.summarizeStreaming &&
+            ((options) => summarizer.summarizeStreaming!(text, options))
+        )
+      );
+    },
+
+    async inputQuota(request) {
+      const withModel = <R>(run: (model: AIModel) => Promise<R>) =>
+        "targetLanguage" in request
+          ? withTranslator(request.sourceLanguage, request.targetLanguage, run)
+          : withSummarizer(request, run);
+
+      const quota = await withModel(async (model) =>
+        model.measureInputUsage ? model.inputQuota : undefined
+      );
+      if (quota === undefined || !Number.isFinite(quota)) {
+        return characterQuota;
+      }
+      return {
+        quota,
+        // Go through the cache each time in case the session went idle
+        measure: (text) => withModel((model) => model.measureInputUsage!(text)),
+      };
+    },
+
+    async summarizeLanguageAvailable(language) {
+      const factory = getAI()?.summarizer;
+      if (!factory) return "no";
+      const capabilities = await factory.capabilities();
+      if (capabilities.languageAvailable) {
+        return capabilities.languageAvailable(language);
+      }
+      return language === "en" ? capabilities.available : "no";
+    },
+
+    async rewrite(text, style, stream = {}) {
+      const factory = await requireFactory(getAI()?.rewriter, "rewrite");
+      const key = `rewriter:${style}`;
+      return sessions.use(
+        key,
+        () =>
+          createModel(
+            factory,
+            { ...rewriteOptions[style], format: "plain-text" },
+            key,
+            { capability: "rewrite" }
+          ),
+        (rewriter) =>
+          respond(
+            stream,
+            (options) => rewriter.rewrite(text, options),
+            rewriter.rewriteStreaming &&
+              ((options) => rewriter.rewriteStreaming!(text, options))
+          )
+      );
+    },
+
+    async write(task, context, stream = {}) {
+      const factory = await requireFactory(getAI()?.writer, "write");
+      const key = "writer";
+      return sessions.use(
+        key,
+        () =>
+          createModel(
+            factory,
+            { tone: "neutral", format: "plain-text", length: "medium" },
+            key,
+            { capability: "write" }
+          ),
+        (writer) =>
+          respond(
+            stream,
+            (options) => writer.write(task, { ...options, context }),
+            writer.writeStreaming &&
+              ((options) =>
+                writer.writeStreaming!(task, { ...options, context }))
+          )
+      );
+    },
+
+    async prompt(question, context, stream = {}) {
+      const factory = await requireFactory(getAI()?.languageModel, "prompt");
+      const session = await createModel(
+        factory,
+        {
+          systemPrompt:
+            "Answer questions about the text the user provides, in the language of the question. Base the answer on the text and say so when it doesn't contain the answer.",
+        },
+        "languageModel",
+        { capability: "prompt" }
+      );
+      const input = `Text:\n"""\n${context}\n"""\n\nQuestion: ${question}`;
+      try {
+        return await respond(
+          stream,
+          (options) => session.prompt(input, options),
+          session.promptStreaming &&
+            ((options) => session.promptStreaming!(input, options))
+        );
+      } finally {
+        session.destroy?.();
+      }
+    },
+
+    dispose() {
+      sessions.destroyAll();
+    },
+  };
+};
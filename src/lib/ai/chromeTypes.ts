@@ -0,0 +1,145 @@
+import type { Availability, SummarizeOptions } from "./types";
+
+// Minimal typings for the parts of Chrome's built-in AI APIs we use.
+
+export interface DownloadProgressEvent {
+  loaded: number;
+  total: number;
+}
+
+export interface AICreateMonitor {
+  addEventListener(
+    type: "downloadprogress",
+    listener: (e: DownloadProgressEvent) => void
+  ): void;
+}
+
+export interface AICreateOptions {
+  monitor?: (m: AICreateMonitor) => void;
+}
+
+export interface AICapabilities {
+  available: Availability;
+}
+
+export interface AISummarizerCapabilities extends AICapabilities {
+  // Missing on builds that only summarize English
+  languageAvailable?(language: string): Availability;
+}
+
+export interface AISummarizerCreateOptions extends SummarizeOptions {
+  expectedInputLanguages?: string[];
+  outputLanguage?: string;
+}
+
+export interface AITranslatorCapabilities extends AICapabilities {
+  languagePairAvailable(source: string, target: string): Availability;
+}
+
+export interface AIModel {
+  ready?: Promise<void>;
+  destroy?: () => void;
+  // Only on builds that expose input limits, measured in tokens
+  inputQuota?: number;
+  measureInputUsage?(text: string): Promise<number>;
+}
+
+export interface AILanguageDetector extends AIModel {
+  detect(
+    text: string
+  ): Promise<{ detectedLanguage: string; confidence: number }[]>;
+}
+
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AITranslator extends AIModel {
+  translate(text: string, options?: AIRequestOptions): Promise<string>;
+  translateStreaming?(
+    text: string,
+    options?: AIRequestOptions
+  ): AsyncIterable<string>;
+}
+
+export interface AISummarizer extends AIModel {
+  summarize(text: string, options?: AIRequestOptions): Promise<string>;
+  summarizeStreaming?(
+    text: string,
+    options?: AIRequestOptions
+  ): AsyncIterable<string>;
+}
+
+export interface AIWriterCreateOptions {
+  tone?: "formal" | "neutral" | "casual";
+  format?: "plain-text" | "markdown";
+  length?: "short" | "medium" | "long";
+  sharedContext?: string;
+}
+
+export interface AIRewriterCreateOptions {
+  tone?: "more-formal" | "as-is" | "more-casual";
+  format?: "as-is" | "plain-text" | "markdown";
+  length?: "shorter" | "as-is" | "longer";
+  sharedContext?: string;
+}
+
+export interface AIWritingRequestOptions extends AIRequestOptions {
+  context?: string;
+}
+
+export interface AIWriter extends AIModel {
+  write(input: string, options?: AIWritingRequestOptions): Promise<string>;
+  writeStreaming?(
+    input: string,
+    options?: AIWritingRequestOptions
+  ): AsyncIterable<string>;
+}
+
+export interface AIRewriter extends AIModel {
+  rewrite(input: string, options?: AIWritingRequestOptions): Promise<string>;
+  rewriteStreaming?(
+    input: string,
+    options?: AIWritingRequestOptions
+  ): AsyncIterable<string>;
+}
+
+// A Prompt API session remembers every prompt, so each question gets a
+// fresh one
+export interface AILanguageModel extends AIModel {
+  prompt(input: string, options?: AIRequestOptions): Promise<string>;
+  promptStreaming?(
+    input: string,
+    options?: AIRequestOptions
+  ): AsyncIterable<string>;
+}
+
+export interface AIFactory<Caps, Options, Model> {
+  capabilities(): Promise<Caps>;
+  create(options?: Options & AICreateOptions): Promise<Model>;
+}
+
+export interface ChromeAI {
+  languageDetector?: AIFactory<AICapabilities, object, AILanguageDetector>;
+  translator?: AIFactory<
+    AITranslatorCapabilities,
+    { sourceLanguage: string; targetLanguage: string },
+    AITranslator
+  >;
+  summarizer?: AIFactory<
+    AISummarizerCapabilities,
+    AISummarizerCreateOptions,
+    AISummarizer
+  >;
+  writer?: AIFactory<AICapabilities, AIWriterCreateOptions, AIWriter>;
+  rewriter?: AIFactory<AICapabilities, AIRewriterCreateOptions, AIRewriter>;
+  languageModel?: AIFactory<
+    AICapabilities,
+    { systemPrompt?: string },
+    AILanguageModel
+  >;
+}
+
+export interface WindowWithAI extends Window {
+  ai?: ChromeAI;
+}
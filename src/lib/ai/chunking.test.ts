@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+import { splitIntoChunks, summarizeInChunks } from "./chunking";
+import type { InputQuota, TextAIProvider } from "./types";
+
+const characters = (quota: number): InputQuota => ({
+  quota,
+  measure: vi.fn(async (text: string) => text.length),
+});
+
+describe("splitIntoChunks", () => {
+  it("measures packed chunks rather than every sentence", async () => {
+    const text = Array.from(
+      { length: 200 },
+      (_, i) => `Sentence number ${i}.`
+    ).join(" ");
+    const quota = characters(500);
+
+    const chunks = await splitIntoChunks(text, quota);
+
+    expect(chunks.join("")).toBe(text);
+    expect(chunks.every((chunk) => chunk.length <= 500)).toBe(true);
+    expect(vi.mocked(quota.measure).mock.calls.length).toBeLessThan(
+      chunks.length * 2
+    );
+  });
+});
+
+describe("summarizeInChunks", () => {
+  it("gives up when summarizing the parts doesn't shorten the text", async () => {
+    const summarize = vi.fn(async (text: string) => text);
+    const provider = {
+      inputQuota: async () => characters(100),
+      summarize,
+    } as unknown as TextAIProvider;
+
+    await expect(
+      summarizeInChunks(provider, "word ".repeat(100), {
+        type: "key-points",
+        format: "markdown",
+        length: "short",
+      })
+    ).rejects.toMatchObject({ kind: "quota-exceeded" });
+    expect(summarize.mock.calls.length).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,219 @@
+import { AIError } from "./errors";
+import { throwIfAborted, type StreamOptions } from "./streaming";
+import type { InputQuota, SummarizeRequest, TextAIProvider } from "./types";
+
+// Boundaries to try, coarsest first. Each splits text into contiguous pieces
+// that keep their trailing whitespace, so joining them gives back the input.
+const splitters: ((text: string) => string[])[] = [
+  (text) => text.match(/[\s\S]+?(?:\n[ \t]*\n\s*|$)/g) ?? [text],
+  (text) =>
+    text.match(/[\s\S]+?(?:[.!?。！？…]+["')\]»”’]*\s+|\n\s*|$)/g) ?? [text],
+  (text) => text.match(/\S+\s*|\s+/g) ?? [text],
+];
+
+// Sentences keeping their trailing whitespace, for aligning a text with its
+// translation
+export const splitSentences = (text: string) =>
+  splitters[1](text).filter(Boolean);
+
+// Share of the quota chunks are packed to by estimate, leaving room for the
+// estimate being off
+const PACKING_MARGIN = 0.9;
+
+// Summarizing rounds before giving up on text that won't get short enough
+const MAX_SUMMARY_ROUNDS = 5;
+
+// Greedily packs pieces into chunks by estimating their usage at `ratio` per
+// character, then measures each chunk once, since measuring can be a model
+// call. A chunk that turns out too big is packed again at its own ratio, or
+// split at the next finer boundary when it is a single piece; a single word
+// that is still too long becomes its own chunk and is left to the backend.
+const pack = async (
+  text: string,
+  quota: InputQuota,
+  level: number,
+  ratio: number
+): Promise<string[]> => {
+  if (level >= splitters.length) return [text];
+
+  const limit = quota.quota * PACKING_MARGIN;
+  // Each group is a chunk's pieces
+  const groups: string[][] = [[]];
+  let length = 0;
+  for (const piece of splitters[level](text).filter(Boolean)) {
+    const current = groups[groups.length - 1];
+    if (current.length && (length + piece.length) * ratio > limit) {
+      groups.push([piece]);
+      length = piece.length;
+    } else {
+      current.push(piece);
+      length += piece.length;
+    }
+  }
+
+  const chunks: string[] = [];
+  for (const group of groups) {
+    const chunk = group.join("");
+    const used = await quota.measure(chunk);
+    if (used <= quota.quota) {
+      chunks.push(chunk);
+    } else {
+      const nextLevel = group.length > 1 ? level : level + 1;
+      chunks.push(
+        ...(await pack(chunk, quota, nextLevel, used / chunk.length))
+      );
+    }
+  }
+  return chunks;
+};
+
+// Splits text into chunks that each fit the quota, on paragraph, then
+// sentence, then word boundaries. `chunks.join("")` is the original text.
+export const splitIntoChunks = async (text: string, quota: InputQuota) => {
+  const used = await quota.measure(text);
+  if (used <= quota.quota) return [text];
+  return pack(text, quota, 0, used / text.length);
+};
+
+// Runs `process` on the text between a chunk's leading and trailing
+// whitespace and puts the whitespace back, so reassembled output keeps the
+// original paragraph breaks.
+export const mapChunkCore = async (
+  chunk: string,
+  process: (core: string) => Promise<string>
+) => {
+  const [, leading, core, trailing] = chunk.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return chunk;
+  return leading + (await process(core)) + trailing;
+};
+
+export interface ChunkProgress {
+  done: number;
+  total: number;
+}
+
+export interface ChunkedOptions extends StreamOptions {
+  // Only called when the text needs more than one chunk
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+// Translates text that may exceed the translator's input quota, one chunk at
+// a time. Streamed updates carry everything translated so far.
+export const translateInChunks = async (
+  provider: TextAIProvider,
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  { signal, onUpdate, onProgress }: ChunkedOptions = {}
+) => {
+  const quota = await provider.inputQuota({ sourceLanguage, targetLanguage });
+  const chunks = await splitIntoChunks(text, quota);
+  if (chunks.length === 1) {
+    return provider.translate(text, sourceLanguage, targetLanguage, {
+      signal,
+      onUpdate,
+    });
+  }
+
+  let translated = "";
+  for (const [index, chunk] of chunks.entries()) {
+    throwIfAborted(signal);
+    onProgress?.({ done: index, total: chunks.length });
+    const done = translated;
+    translated += await mapChunkCore(chunk, (core) =>
+      provider.translate(core, sourceLanguage, targetLanguage, {
+        signal,
+        onUpdate: onUpdate && ((partial) => onUpdate(done + partial)),
+      })
+    );
+    onUpdate?.(translated);
+  }
+  onProgress?.({ done: chunks.length, total: chunks.length });
+  return translated;
+};
+
+// Summarizes text that may exceed the summarizer's input quota. Long input is
+// summarized chunk by chunk, then the joined chunk summaries are summarized
+// again until they fit in one final call with the requested options. Throws a
+// "quota-exceeded" AIError when a round doesn't make them any shorter.
+export const summarizeInChunks = async (
+  provider: TextAIProvider,
+  text: string,
+  request: SummarizeRequest,
+  { signal, onUpdate, onProgress }: ChunkedOptions = {}
+) => {
+  const quota = await provider.inputQuota(request);
+  // Intermediate summaries only feed the next round, so keep them detailed
+  // and free of markup
+  const partRequest: SummarizeRequest = {
+    ...request,
+    type: "tl;dr",
+    format: "plain-text",
+    length: "long",
+  };
+  const partQuota = await provider.inputQuota(partRequest);
+
+  let input = text;
+  let used = await quota.measure(input);
+  for (let round = 0; used > quota.quota; round++) {
+    if (round === MAX_SUMMARY_ROUNDS) {
+      throw new AIError("quota-exceeded", { key: "error.summaryTooLong" });
+    }
+    const chunks = await splitIntoChunks(input, partQuota);
+    // A single oversized word can't be split any further
+    if (chunks.length === 1) break;
+
+    // The extra step is the final summary
+    const total = chunks.length + 1;
+    const summaries: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      throwIfAborted(signal);
+      onProgress?.({ done: index, total });
+      summaries.push(
+        await provider.summarize(chunk.trim(), partRequest, { signal })
+      );
+    }
+    onProgress?.({ done: chunks.length, total });
+
+    const shorter = summaries.join("\n\n");
+    const shorterUsed = await quota.measure(shorter);
+    if (shorterUsed >= used) {
+      throw new AIError("quota-exceeded", { key: "error.summaryNotShorter" });
+    }
+    input = shorter;
+    used = shorterUsed;
+  }
+
+  return provider.summarize(input, request, { signal, onUpdate });
+};
+
+interface SegmentOptions extends Omit<ChunkedOptions, "onUpdate"> {
+  onUpdate?: (translated: string[]) => void;
+}
+
+// Translates each segment on its own, e.g. subtitle cues whose count and
+// order must survive translation. Updates carry the segments finished so
+// far; empty segments are passed through.
+export const translateSegments = async (
+  provider: TextAIProvider,
+  segments: string[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  { signal, onUpdate, onProgress }: SegmentOptions = {}
+) => {
+  const translated: string[] = [];
+  for (const [index, segment] of segments.entries()) {
+    throwIfAborted(signal);
+    onProgress?.({ done: index, total: segments.length });
+    translated.push(
+      segment.trim()
+        ? await provider.translate(segment, sourceLanguage, targetLanguage, {
+            signal,
+          })
+        : segment
+    );
+    onUpdate?.([...translated]);
+  }
+  onProgress?.({ done: segments.length, total: segments.length });
+  return translated;
+};
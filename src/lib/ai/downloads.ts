@@ -0,0 +1,57 @@
+// Tracks model downloads reported by the backends so the UI can show them.
+// Shaped for useSyncExternalStore: subscribe() plus an immutable snapshot.
+
+import type { Capability } from "./types";
+
+// What is being downloaded, named by the UI in the interface language
+export interface DownloadedModel {
+  capability: Capability;
+  // Translation models are per language pair
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+export interface ModelDownload {
+  key: string;
+  model: DownloadedModel;
+  // 0..1
+  progress: number;
+}
+
+type Listener = () => void;
+
+let downloads: ModelDownload[] = [];
+const listeners = new Set<Listener>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export const subscribeDownloads = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getDownloads = () => downloads;
+
+export const reportDownloadProgress = (
+  key: string,
+  model: DownloadedModel,
+  progress: number
+) => {
+  const next: ModelDownload = {
+    key,
+    model,
+    progress: Math.min(1, Math.max(0, progress)),
+  };
+  downloads = downloads.some((download) => download.key === key)
+    ? downloads.map((download) => (download.key === key ? next : download))
+    : [...downloads, next];
+  emit();
+};
+
+export const finishDownload = (key: string) => {
+  if (!downloads.some((download) => download.key === key)) return;
+  downloads = downloads.filter((download) => download.key !== key);
+  emit();
+};
@@ -0,0 +1,56 @@
+import { createI18n, localize, type I18n, type LocalizedText } from "../i18n";
+import { isAbortError } from "./streaming";
+
+export type AIErrorKind =
+  | "unavailable"
+  | "unsupported-pair"
+  | "quota-exceeded"
+  | "aborted"
+  | "download-failed"
+  | "unknown";
+
+let english: I18n | undefined;
+
+// Thrown by providers so the UI can tell failures apart without parsing
+// backend-specific messages. Messages of our own are catalog messages,
+// translated when shown; `message` holds the English text for the console.
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly text: LocalizedText | string;
+
+  constructor(kind: AIErrorKind, text: LocalizedText | string) {
+    super(localize((english ??= createI18n("en")), text));
+    this.name = "AIError";
+    this.kind = kind;
+    this.text = text;
+  }
+}
+
+// Classifies anything caught from a provider call. Browser exceptions keep
+// their message and their DOMException name picks the kind.
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (isAbortError(error)) {
+    return new AIError("aborted", { key: "error.stopped" });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException) {
+    switch (error.name) {
+      case "QuotaExceededError":
+        return new AIError("quota-exceeded", message);
+      case "NotSupportedError":
+        return new AIError("unsupported-pair", message);
+      case "NetworkError":
+        return new AIError("download-failed", message);
+      case "NotAllowedError":
+      case "InvalidStateError":
+        return new AIError("unavailable", message);
+    }
+  }
+  // fetch() rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AIError("unavailable", message);
+  }
+  return new AIError("unknown", message);
+};
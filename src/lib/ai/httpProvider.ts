@@ -0,0 +1,339 @@
+import {
+  MAX_DETECTED_LANGUAGES,
+  type Availability,
+  type DetectedLanguage,
+  type ProviderCapabilities,
+  type RewriteStyle,
+  type SummarizeOptions,
+  type TextAIProvider,
+} from "./types";
+import type { LocalizedText } from "../i18n";
+import { candidateLanguages } from "../languages";
+import { AIError } from "./errors";
+import { characterQuota } from "./quota";
+import { collectStream, type StreamOptions } from "./streaming";
+
+// "libretranslate" servers expose /detect and /translate but can't summarize.
+// "openai" servers expose /v1/chat/completions and we prompt them for all three.
+export type HttpDialect = "libretranslate" | "openai";
+
+export interface HttpProviderConfig {
+  dialect: HttpDialect;
+  baseUrl: string;
+  model?: string;
+  apiKey?: string;
+}
+
+export const defaultHttpConfig: HttpProviderConfig = {
+  dialect: "libretranslate",
+  baseUrl: "http://localhost:5000",
+};
+
+const typeInstructions: Record<SummarizeOptions["type"], string> = {
+  "key-points": "Extract the most important points as a bulleted list.",
+  "tl;dr": "Give a short, to-the-point overview.",
+  teaser: "Write an intriguing teaser that makes the reader want more.",
+  headline: "Write a single headline capturing the main point.",
+};
+
+const lengthInstructions: Record<SummarizeOptions["length"], string> = {
+  short: "Keep it very brief.",
+  medium: "Keep it moderately brief.",
+  long: "Be thorough but concise.",
+};
+
+const rewriteInstructions: Record<RewriteStyle, string> = {
+  "more-formal": "Rewrite the user's text in a more formal tone.",
+  "more-casual": "Rewrite the user's text in a more casual tone.",
+  shorter: "Rewrite the user's text to be noticeably shorter.",
+};
+
+// Maps an HTTP failure to the closest error kind
+const responseError = (response: Response): AIError => {
+  const message: LocalizedText = {
+    key: "error.serverResponse",
+    params: { status: response.status, statusText: response.statusText },
+  };
+  if (response.status === 413 || response.status === 429) {
+    return new AIError("quota-exceeded", message);
+  }
+  if (response.status === 404 || response.status >= 500) {
+    return new AIError("unavailable", message);
+  }
+  return new AIError("unknown", message);
+};
+
+export const createHttpProvider = (
+  config: HttpProviderConfig
+): TextAIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const authHeaders = (): Record<string, string> =>
+    config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const request = async (
+    path: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw responseError(response);
+    }
+    return response;
+  };
+
+  const post = async <T>(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<T> => (await request(path, body, signal)).json() as Promise<T>;
+
+  // Yields the content deltas of an OpenAI-style server-sent event stream.
+  async function* readChatStream(response: Response): AsyncGenerator<string> {
+    const reader = response
+      .body!.pipeThrough(new TextDecoderStream())
+      .getReader();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          // Keep-alives and malformed lines shouldn't end the whole stream
+          continue;
+        }
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (typeof delta === "string") yield delta;
+      }
+    }
+  }
+
+  const chat = async (
+    system: string,
+    user: string,
+    stream: StreamOptions = {}
+  ): Promise<string> => {
+    const body = {
+      model: config.model || "default",
+      temperature: 0,
+      stream: Boolean(stream.onUpdate),
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+    };
+
+    if (stream.onUpdate) {
+      const response = await request(
+        "/v1/chat/completions",
+        body,
+        stream.signal
+      );
+      const content = await collectStream(readChatStream(response), stream);
+      return content.trim();
+    }
+
+    const data = await post<{
+      choices: { message: { content: string } }[];
+    }>("/v1/chat/completions", body, stream.signal);
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new AIError("unknown", { key: "error.emptyCompletion" });
+    }
+    return content.trim();
+  };
+
+  const requireChat = (
+    capability: "summarize" | "rewrite" | "write" | "prompt"
+  ) => {
+    if (config.dialect !== "openai") {
+      throw new AIError("unavailable", {
+        key: `error.serverUnsupported.${capability}`,
+      });
+    }
+  };
+
+  const isReachable = async (): Promise<boolean> => {
+    const path = config.dialect === "openai" ? "/v1/models" : "/languages";
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        headers: authHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    id: "http",
+
+    async capabilities(): Promise<ProviderCapabilities> {
+      const reachable: Availability = (await isReachable()) ? "readily" : "no";
+      // Only chat servers can be prompted for anything beyond translation
+      const chats = config.dialect === "openai" ? reachable : "no";
+      return {
+        detect: reachable,
+        translate: reachable,
+        summarize: chats,
+        rewrite: chats,
+        write: chats,
+        prompt: chats,
+      };
+    },
+
+    async detect(text) {
+      if (config.dialect === "openai") {
+        const reply = await chat(
+          `Identify the language of the user's text. Reply with only a JSON array of up to ${MAX_DETECTED_LANGUAGES} candidates, most likely first, like [{"language": "<ISO 639-1 code>", "confidence": <0 to 1>}].`,
+          text
+        );
+        try {
+          const candidates: DetectedLanguage[] = JSON.parse(
+            reply.replace(/^```(json)?|```$/g, "")
+          );
+          return candidates
+            .filter((c) => typeof c.language === "string" && c.language)
+            .slice(0, MAX_DETECTED_LANGUAGES)
+            .map((c) => ({
+              language: c.language.toLowerCase(),
+              confidence: Number(c.confidence) || 0,
+            }));
+        } catch {
+          // Some models ignore the format and reply with a bare code
+          const code = reply.toLowerCase().replace(/[^a-z-]/g, "");
+          return code ? [{ language: code, confidence: 0 }] : [];
+        }
+      }
+
+      // LibreTranslate reports confidence as a percentage
+      const results = await post<{ language: string; confidence: number }[]>(
+        "/detect",
+        { q: text }
+      );
+      return (results ?? []).slice(0, MAX_DETECTED_LANGUAGES).map((result) => ({
+        language: result.language,
+        confidence: result.confidence / 100,
+      }));
+    },
+
+    async translate(text, sourceLanguage, targetLanguage, stream = {}) {
+      if (config.dialect === "openai") {
+        return chat(
+          `Translate the user's text from ${sourceLanguage} to ${targetLanguage}. Reply with only the translation.`,
+          text,
+          stream
+        );
+      }
+
+      const data = await post<{ translatedText: string }>(
+        "/translate",
+        {
+          q: text,
+          source: sourceLanguage,
+          target: targetLanguage,
+          format: "text",
+        },
+        stream.signal
+      );
+      stream.onUpdate?.(data.translatedText);
+      return data.translatedText;
+    },
+
+    async translationTargets(sourceLanguage) {
+      if (config.dialect === "openai") {
+        return candidateLanguages
+          .filter((language) => language !== sourceLanguage)
+          .map((language) => ({ language, availability: "readily" }));
+      }
+
+      const response = await fetch(`${baseUrl}/languages`, {
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        throw responseError(response);
+      }
+      const languages: { code: string; targets?: string[] }[] =
+        await response.json();
+      const source = languages.find(
+        (language) => language.code === sourceLanguage
+      );
+      return (source?.targets ?? [])
+        .filter((language) => language !== sourceLanguage)
+        .map((language) => ({ language, availability: "readily" }));
+    },
+
+    async inputQuota() {
+      return characterQuota;
+    },
+
+    async summarizeLanguageAvailable() {
+      return config.dialect === "openai" ? "readily" : "no";
+    },
+
+    async summarize(text, options, stream) {
+      requireChat("summarize");
+
+      const format =
+        options.format === "markdown"
+          ? "Format the result as Markdown."
+          : "Use plain text with no Markdown.";
+      const language = options.outputLanguage
+        ? ` Write the summary in ${options.outputLanguage}.`
+        : "";
+      const context = options.sharedContext?.trim()
+        ? ` Background: ${options.sharedContext.trim()}`
+        : "";
+      return chat(
+        `Summarize the user's text. ${typeInstructions[options.type]} ${
+          lengthInstructions[options.length]
+        } ${format}${language}${context}`,
+        text,
+        stream
+      );
+    },
+
+    async rewrite(text, style, stream) {
+      requireChat("rewrite");
+      return chat(
+        `${rewriteInstructions[style]} Keep its language and meaning. Reply with only the rewritten text.`,
+        text,
+        stream
+      );
+    },
+
+    async write(task, context, stream) {
+      requireChat("write");
+      return chat(
+        `${task} Reply with only the text to send, in the language of the user's message.`,
+        context,
+        stream
+      );
+    },
+
+    async prompt(question, context, stream) {
+      requireChat("prompt");
+      return chat(
+        `Answer questions about the user's text, in the language of the question. Base the answer on the text and say so when it doesn't contain the answer.\n\nQuestion: ${question}`,
+        context,
+        stream
+      );
+    },
+  };
+};
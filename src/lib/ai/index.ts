@@ -0,0 +1,56 @@
+import { createChromeProvider } from "./chromeProvider";
+import {
+  createHttpProvider,
+  defaultHttpConfig,
+  type HttpProviderConfig,
+} from "./httpProvider";
+import type { ProviderId, TextAIProvider } from "./types";
+
+export * from "./types";
+export * from "./capabilities";
+export * from "./chunking";
+export * from "./errors";
+export * from "./streaming";
+export * from "./summaryOptions";
+export {
+  getDownloads,
+  subscribeDownloads,
+  type DownloadedModel,
+  type ModelDownload,
+} from "./downloads";
+export type { HttpDialect, HttpProviderConfig } from "./httpProvider";
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  http: HttpProviderConfig;
+}
+
+const STORAGE_KEY = "ai-provider-settings";
+
+export const defaultProviderSettings: ProviderSettings = {
+  provider: "chrome",
+  http: defaultHttpConfig,
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultProviderSettings;
+    const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+    return {
+      provider: parsed.provider === "http" ? "http" : "chrome",
+      http: { ...defaultHttpConfig, ...parsed.http },
+    };
+  } catch {
+    return defaultProviderSettings;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createProvider = (settings: ProviderSettings): TextAIProvider =>
+  settings.provider === "http"
+    ? createHttpProvider(settings.http)
+    : createChromeProvider();
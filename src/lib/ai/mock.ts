@@ -0,0 +1,337 @@
+import type {
+  AICapabilities,
+  AICreateMonitor,
+  AICreateOptions,
+  AIRequestOptions,
+  ChromeAI,
+  DownloadProgressEvent,
+  WindowWithAI,
+} from "./chromeTypes";
+import { throwIfAborted } from "./streaming";
+import type { Availability, RewriteStyle, SummarizeOptions } from "./types";
+
+// A deterministic stand-in for Chrome's built-in AI APIs, installed on
+// `window.ai` in tests and with `?mock=1` during development.
+
+export type MockAPI =
+  | "languageDetector"
+  | "translator"
+  | "summarizer"
+  | "rewriter"
+  | "writer"
+  | "languageModel";
+
+export interface MockAIConfig {
+  // Reported per API. "after-download" models emit progress events on their
+  // first create() and report "readily" afterwards.
+  availability?: Partial<Record<MockAPI, Availability>>;
+  // Milliseconds each call takes
+  delay?: number;
+  // Progress events emitted while a model "downloads"
+  downloadSteps?: number;
+  // Language pairs such as "en:ja" that the translator rejects
+  unsupportedPairs?: string[];
+  // Languages the summarizer accepts besides English
+  summarizerLanguages?: string[];
+  // Thrown by every call to the API until cleared, e.g. a DOMException named
+  // "QuotaExceededError". "download" fails model creation.
+  failures?: Partial<Record<MockAPI | "download", Error>>;
+  // Reported by translator and summarizer sessions, measured in characters
+  inputQuota?: number;
+}
+
+export interface MockAICall {
+  api: MockAPI;
+  input: string;
+}
+
+export interface MockAI {
+  // Mutable: changes apply to the next call
+  config: MockAIConfig;
+  calls: MockAICall[];
+  uninstall(): void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Common words per language; the detector ranks languages by hits
+const markers: Record<string, string[]> = {
+  en: "the and is of to in that it with for this are was".split(" "),
+  es: "el la que de y es los las con una por para del".split(" "),
+  fr: "le les est et des une dans pour que du pas sur".split(" "),
+  pt: "o que de e não uma com os para é do da".split(" "),
+  de: "der die das und ist nicht ein eine mit zu den von".split(" "),
+};
+
+export const mockDetect = (text: string) => {
+  if (/\p{Script=Cyrillic}/u.test(text)) {
+    return [{ detectedLanguage: "ru", confidence: 0.99 }];
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const hits = Object.entries(markers)
+    .map(([language, common]) => ({
+      language,
+      count: words.filter((word) => common.includes(word)).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+  const total = hits.reduce((sum, { count }) => sum + count, 0);
+
+  if (total === 0) return [{ detectedLanguage: "und", confidence: 1 }];
+  return hits.map(({ language, count }) => ({
+    detectedLanguage: language,
+    confidence: Math.round((count / total) * 100) / 100,
+  }));
+};
+
+export const mockTranslate = (text: string, targetLanguage: string) =>
+  `[${targetLanguage}] ${text}`;
+
+const sentenceCounts: Record<SummarizeOptions["length"], number> = {
+  short: 1,
+  medium: 3,
+  long: 5,
+};
+
+export const mockSummarize = (text: string, options: SummarizeOptions) => {
+  const sentences = (text.match(/[^.!?]+[.!?]*/g) ?? [text])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .slice(0, sentenceCounts[options.length]);
+  if (options.type === "key-points" && options.format === "markdown") {
+    return sentences.map((sentence) => `- ${sentence}`).join("\n");
+  }
+  return sentences.join(" ");
+};
+
+const firstSentence = (text: string) =>
+  text.match(/[^.!?]+[.!?]*/)?.[0].trim() ?? text;
+
+export const mockRewrite = (text: string, style: RewriteStyle) =>
+  style === "shorter" ? firstSentence(text) : `[${style}] ${text}`;
+
+export const mockWrite = (task: string, context: string) =>
+  `${task} — ${firstSentence(context)}`;
+
+export const mockPrompt = (question: string, context: string) =>
+  `${question} ${firstSentence(context)}`;
+
+export const installMockAI = (initial: MockAIConfig = {}): MockAI => {
+  const mock: MockAI = {
+    config: initial,
+    calls: [],
+    uninstall() {
+      delete (window as WindowWithAI).ai;
+    },
+  };
+
+  const availability = (api: MockAPI): Availability =>
+    mock.config.availability?.[api] ?? "readily";
+
+  const failIfConfigured = (api: MockAPI | "download") => {
+    const failure = mock.config.failures?.[api];
+    if (failure) throw failure;
+  };
+
+  const call = async (
+    api: MockAPI,
+    input: string,
+    options: AIRequestOptions = {}
+  ) => {
+    mock.calls.push({ api, input });
+    await wait(mock.config.delay ?? 0, options.signal);
+    failIfConfigured(api);
+  };
+
+  // Resolves once the model is "downloaded", reporting progress on the way
+  const download = async (api: MockAPI, options: AICreateOptions = {}) => {
+    if (availability(api) === "no") {
+      throw new DOMException(`${api} is not available.`, "NotSupportedError");
+    }
+    if (availability(api) === "after-download") {
+      const listeners: ((e: DownloadProgressEvent) => void)[] = [];
+      const monitor: AICreateMonitor = {
+        addEventListener: (_type, listener) => listeners.push(listener),
+      };
+      options.monitor?.(monitor);
+
+      const steps = mock.config.downloadSteps ?? 4;
+      for (let step = 1; step <= steps; step++) {
+        await wait(mock.config.delay ?? 0);
+        failIfConfigured("download");
+        listeners.forEach((listener) =>
+          listener({ loaded: step / steps, total: 0 })
+        );
+      }
+      mock.config.availability = {
+        ...mock.config.availability,
+        [api]: "readily",
+      };
+    }
+    failIfConfigured("download");
+  };
+
+  // Only reported when configured, like builds without quota support
+  const quota = () =>
+    mock.config.inputQuota === undefined
+      ? {}
+      : {
+          inputQuota: mock.config.inputQuota,
+          measureInputUsage: async (text: string) => text.length,
+        };
+
+  const capabilities = async (api: MockAPI): Promise<AICapabilities> => {
+    await wait(mock.config.delay ?? 0);
+    return { available: availability(api) };
+  };
+
+  const ai: ChromeAI = {
+    languageDetector: {
+      capabilities: () => capabilities("languageDetector"),
+      async create(options) {
+        await download("languageDetector", options);
+        return {
+          destroy() {},
+          async detect(text) {
+            await call("languageDetector", text);
+            return mockDetect(text);
+          },
+        };
+      },
+    },
+
+    translator: {
+      async capabilities() {
+        return {
+          ...(await capabilities("translator")),
+          languagePairAvailable: (source, target) =>
+            source === target ||
+            mock.config.unsupportedPairs?.includes(`${source}:${target}`)
+              ? "no"
+              : availability("translator"),
+        };
+      },
+      async create(options) {
+        await download("translator", options);
+        const targetLanguage = options?.targetLanguage ?? "en";
+        return {
+          ...quota(),
+          destroy() {},
+          async translate(text, requestOptions) {
+            await call("translator", text, requestOptions);
+            return mockTranslate(text, targetLanguage);
+          },
+        };
+      },
+    },
+
+    summarizer: {
+      async capabilities() {
+        return {
+          ...(await capabilities("summarizer")),
+          languageAvailable: (language) =>
+            language === "en" ||
+            mock.config.summarizerLanguages?.includes(language)
+              ? availability("summarizer")
+              : "no",
+        };
+      },
+      async create(options) {
+        await download("summarizer", options);
+        const summaryOptions: SummarizeOptions = {
+          type: options?.type ?? "key-points",
+          format: options?.format ?? "markdown",
+          length: options?.length ?? "medium",
+        };
+        return {
+          ...quota(),
+          destroy() {},
+          async summarize(text, requestOptions) {
+            await call("summarizer", text, requestOptions);
+            return mockSummarize(text, summaryOptions);
+          },
+          // Yields the summary a word at a time, as deltas
+          async *summarizeStreaming(text, requestOptions) {
+            await call("summarizer", text, requestOptions);
+            const words = mockSummarize(text, summaryOptions).split(/(?<=\s)/);
+            for (const word of words) {
+              await wait(
+                (mock.config.delay ?? 0) / words.length,
+                requestOptions?.signal
+              );
+              yield word;
+            }
+          },
+        };
+      },
+    },
+
+    rewriter: {
+      capabilities: () => capabilities("rewriter"),
+      async create(options) {
+        await download("rewriter", options);
+        const style: RewriteStyle =
+          options?.length === "shorter"
+            ? "shorter"
+            : options?.tone === "more-casual"
+            ? "more-casual"
+            : "more-formal";
+        return {
+          destroy() {},
+          async rewrite(text, requestOptions) {
+            await call("rewriter", text, requestOptions);
+            return mockRewrite(text, style);
+          },
+        };
+      },
+    },
+
+    writer: {
+      capabilities: () => capabilities("writer"),
+      async create(options) {
+        await download("writer", options);
+        return {
+          destroy() {},
+          async write(task, requestOptions) {
+            await call("writer", task, requestOptions);
+            return mockWrite(task, requestOptions?.context ?? "");
+          },
+        };
+      },
+    },
+
+    // Expects prompts shaped like the Chrome provider's: the text, then the
+    // question on the last line
+    languageModel: {
+      capabilities: () => capabilities("languageModel"),
+      async create(options) {
+        await download("languageModel", options);
+        return {
+          destroy() {},
+          async prompt(input, requestOptions) {
+            await call("languageModel", input, requestOptions);
+            const [, context = "", question = input] =
+              input.match(/"""\n([\s\S]*)\n"""\s*Question: (.*)$/) ?? [];
+            return mockPrompt(question, context);
+          },
+        };
+      },
+    },
+  };
+
+  (window as WindowWithAI).ai = ai;
+  return mock;
+};
@@ -0,0 +1,8 @@
+import type { InputQuota } from "./types";
+
+// Used when a backend doesn't report its own limit. Conservative enough for
+// LibreTranslate's default character limit and small local models.
+export const characterQuota: InputQuota = {
+  quota: 4000,
+  measure: async (text) => text.length,
+};
@@ -0,0 +1,75 @@
+// Caches model sessions (detectors, translators, summarizers) by key so that
+// repeated requests reuse one instance instead of calling create() each time.
+// Sessions nobody has used for `idleTimeout` ms are destroyed.
+
+export interface DisposableSession {
+  destroy?: () => void;
+}
+
+interface SessionEntry {
+  session: Promise<DisposableSession>;
+  inUse: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export interface SessionCache {
+  use<S extends DisposableSession, R>(
+    key: string,
+    create: () => Promise<S>,
+    run: (session: S) => Promise<R>
+  ): Promise<R>;
+  destroyAll(): void;
+}
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+export const createSessionCache = (
+  idleTimeout = DEFAULT_IDLE_TIMEOUT
+): SessionCache => {
+  const entries = new Map<string, SessionEntry>();
+
+  const destroy = (key: string, entry: SessionEntry) => {
+    clearTimeout(entry.timer);
+    if (entries.get(key) === entry) entries.delete(key);
+    entry.session.then((session) => session.destroy?.()).catch(() => {});
+  };
+
+  const scheduleIdle = (key: string, entry: SessionEntry) => {
+    clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      if (entry.inUse === 0) destroy(key, entry);
+    }, idleTimeout);
+  };
+
+  return {
+    async use(key, create, run) {
+      let entry = entries.get(key);
+      if (!entry) {
+        const session = create();
+        const created: SessionEntry = { session, inUse: 0 };
+        entries.set(key, created);
+        // A failed create() must not poison the cache for the next caller.
+        session.catch(() => {
+          if (entries.get(key) === created) entries.delete(key);
+        });
+        entry = created;
+      }
+
+      clearTimeout(entry.timer);
+      entry.inUse++;
+      try {
+        const session = (await entry.session) as Parameters<typeof run>[0];
+        return await run(session);
+      } finally {
+        entry.inUse--;
+        if (entry.inUse === 0 && entries.get(key) === entry) {
+          scheduleIdle(key, entry);
+        }
+      }
+    },
+
+    destroyAll() {
+      entries.forEach((entry, key) => destroy(key, entry));
+    },
+  };
+};
@@ -0,0 +1,30 @@
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Called with the whole text produced so far, not just the latest chunk.
+  onUpdate?: (partial: string) => void;
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("The operation was aborted.", "AbortError");
+  }
+};
+
+export const collectStream = async (
+  stream: AsyncIterable<string>,
+  { signal, onUpdate }: StreamOptions = {}
+): Promise<string> => {
+  let result = "";
+  for await (const chunk of stream) {
+    throwIfAborted(signal);
+    // Early Chrome builds yield the whole text so far, later ones only the
+    // new part.
+    result = chunk.startsWith(result) ? chunk : result + chunk;
+    onUpdate?.(result);
+  }
+  throwIfAborted(signal);
+  return result;
+};
@@ -0,0 +1,59 @@
+import type { LocalizedText, MessageKey, Translate } from "../i18n";
+import type {
+  SummarizeOptions,
+  SummaryFormat,
+  SummaryLength,
+  SummaryType,
+} from "./types";
+
+export const defaultSummaryOptions: SummarizeOptions = {
+  type: "key-points",
+  format: "markdown",
+  length: "medium",
+};
+
+// Labels are catalog keys so they follow the interface language
+export const summaryTypes: { value: SummaryType; label: MessageKey }[] = [
+  { value: "key-points", label: "summaryType.key-points" },
+  { value: "tl;dr", label: "summaryType.tl;dr" },
+  { value: "teaser", label: "summaryType.teaser" },
+  { value: "headline", label: "summaryType.headline" },
+];
+
+export const summaryLengths: { value: SummaryLength; label: MessageKey }[] = [
+  { value: "short", label: "summaryLength.short" },
+  { value: "medium", label: "summaryLength.medium" },
+  { value: "long", label: "summaryLength.long" },
+];
+
+export const summaryFormats: { value: SummaryFormat; label: MessageKey }[] = [
+  { value: "markdown", label: "summaryFormat.markdown" },
+  { value: "plain-text", label: "summaryFormat.plain-text" },
+];
+
+// Identifies a summary by the options that produced it, so one message can
+// hold several summaries side by side.
+export const summaryKey = (options: SummarizeOptions) =>
+  [
+    options.type,
+    options.length,
+    options.format,
+    options.sharedContext?.trim() ?? "",
+  ].join("|");
+
+export const describeSummaryOptions = (
+  t: Translate,
+  options: SummarizeOptions
+) =>
+  `${t(`summaryType.${options.type}`)} · ${t(
+    `summaryLength.${options.length}`
+  )}`;
+
+// Names a summary in headings and error titles, e.g. "Summary (TL;DR · Short)"
+export const summaryTitle = (options: SummarizeOptions): LocalizedText => ({
+  key: "operation.summary",
+  params: {
+    type: { key: `summaryType.${options.type}` },
+    length: { key: `summaryLength.${options.length}` },
+  },
+});
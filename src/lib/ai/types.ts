@@ -0,0 +1,112 @@
+// Shared types for the text AI backends. App code only talks to a
+// TextAIProvider, never to window.ai or a server directly.
+
+import type { StreamOptions } from "./streaming";
+
+export const MAX_DETECTED_LANGUAGES = 3;
+
+export type Availability = "readily" | "after-download" | "no";
+
+export type Capability =
+  | "detect"
+  | "translate"
+  | "summarize"
+  | "rewrite"
+  | "write"
+  | "prompt";
+
+export type ProviderCapabilities = Record<Capability, Availability>;
+
+export type SummaryType = "key-points" | "tl;dr" | "teaser" | "headline";
+export type SummaryFormat = "markdown" | "plain-text";
+export type SummaryLength = "short" | "medium" | "long";
+
+export interface SummarizeOptions {
+  type: SummaryType;
+  format: SummaryFormat;
+  length: SummaryLength;
+  // Background shared by everything summarized with these options, e.g.
+  // "These are support tickets from a banking app".
+  sharedContext?: string;
+}
+
+// Rewrites offered on each message; the text keeps its language and meaning
+export type RewriteStyle = "more-formal" | "more-casual" | "shorter";
+
+// Languages are per request rather than part of the options so that the same
+// summary options can be applied to text in any language.
+export interface SummarizeRequest extends SummarizeOptions {
+  inputLanguage?: string;
+  outputLanguage?: string;
+}
+
+export interface DetectedLanguage {
+  language: string;
+  // 0..1
+  confidence: number;
+}
+
+export interface TranslationTarget {
+  language: string;
+  // "readily" means the model is on the device, "after-download" that
+  // translating will first fetch it
+  availability: Availability;
+}
+
+// How much text a single translate or summarize call accepts. The unit is up
+// to the backend (tokens for Chrome, characters otherwise); only compare
+// `measure()` results against `quota`.
+export interface InputQuota {
+  quota: number;
+  measure(text: string): Promise<number>;
+}
+
+export type QuotaRequest =
+  | SummarizeRequest
+  | { sourceLanguage: string; targetLanguage: string };
+
+export type ProviderId = "chrome" | "http";
+
+export interface TextAIProvider {
+  // The UI names the backend through the "provider.<id>" message
+  id: ProviderId;
+  capabilities(): Promise<ProviderCapabilities>;
+  // Most likely languages first, at most MAX_DETECTED_LANGUAGES of them.
+  // Empty when nothing matched.
+  detect(text: string): Promise<DetectedLanguage[]>;
+  // Both resolve to the full result; pass `stream.onUpdate` to receive partial
+  // output as it is generated and `stream.signal` to stop early.
+  translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    stream?: StreamOptions
+  ): Promise<string>;
+  // Languages `sourceLanguage` can be translated into, unsupported ones omitted
+  translationTargets(sourceLanguage: string): Promise<TranslationTarget[]>;
+  summarize(
+    text: string,
+    options: SummarizeRequest,
+    stream?: StreamOptions
+  ): Promise<string>;
+  // Whether summarize() accepts input in this language without translating
+  // it to English first.
+  summarizeLanguageAvailable(language: string): Promise<Availability>;
+  inputQuota(request: QuotaRequest): Promise<InputQuota>;
+  rewrite(
+    text: string,
+    style: RewriteStyle,
+    stream?: StreamOptions
+  ): Promise<string>;
+  // Writes new text for `task`, e.g. "Draft a reply to this message", with
+  // `context` as the material to work from.
+  write(task: string, context: string, stream?: StreamOptions): Promise<string>;
+  // Answers a free-form question about `context`
+  prompt(
+    question: string,
+    context: string,
+    stream?: StreamOptions
+  ): Promise<string>;
+  // Releases cached model sessions; the provider stays usable afterwards.
+  dispose?(): void;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignSentences,
+  editAlignedSentence,
+  joinTranslation,
+  MAX_ALIGNED_SENTENCES,
+} from "./alignment";
+
+describe("alignSentences", () => {
+  it("pairs sentences in order when the counts match", () => {
+    const rows = alignSentences("Uno. Dos.", "One. Two.");
+    expect(rows).toEqual([
+      { source: "Uno. ", translation: "One. " },
+      { source: "Dos.", translation: "Two." },
+    ]);
+  });
+
+  it("merges sentences the translation joined", () => {
+    const rows = alignSentences(
+      "Hace sol. Vamos a la playa porque hace calor. Nos quedamos hasta la noche.",
+      "It is sunny and we go to the beach because it is hot. We stay until night."
+    );
+    expect(rows.map((row) => row.source.trim())).toEqual([
+      "Hace sol. Vamos a la playa porque hace calor.",
+      "Nos quedamos hasta la noche.",
+    ]);
+  });
+
+  it("pairs long texts in order instead of by length", () => {
+    const text = "Uno. ".repeat(MAX_ALIGNED_SENTENCES + 1);
+    const rows = alignSentences(text, "One. ".repeat(MAX_ALIGNED_SENTENCES));
+    expect(rows).toHaveLength(MAX_ALIGNED_SENTENCES + 1);
+    expect(rows[MAX_ALIGNED_SENTENCES]).toEqual({
+      source: "Uno. ",
+      translation: "",
+    });
+  });
+
+  it("reuses the alignment of a pair it has seen", () => {
+    const text = "Hace sol. Vamos a la playa.";
+    const translation = "It is sunny and we go to the beach.";
+    expect(alignSentences(text, translation)).toBe(
+      alignSentences(text, translation)
+    );
+  });
+
+  it("pairs subtitle cues by position", () => {
+    const rows = alignSentences("Hola.\n\nAdiós. Chao.", "Hi.\n\nBye.", true);
+    expect(rows.map((row) => row.translation)).toEqual(["Hi.\n\n", "Bye."]);
+  });
+});
+
+describe("editAlignedSentence", () => {
+  it("keeps the whitespace between sentences", () => {
+    const rows = editAlignedSentence(
+      alignSentences("Uno.\nDos.", "One.\nTwo."),
+      0,
+      " First. "
+    );
+    expect(rows[0]).toMatchObject({ translation: "First.\n", edited: true });
+    expect(joinTranslation(rows)).toBe("First.\nTwo.");
+  });
+});
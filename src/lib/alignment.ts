@@ -0,0 +1,155 @@
+import { splitSentences } from "./ai";
+import { CUE_SEPARATOR, splitCueTexts } from "./subtitles";
+import type { AlignedSentence, Message } from "../types";
+
+// Extra cost of pairing sentences other than one to one, so merges only win
+// when the lengths clearly call for them
+const MERGE_PENALTY = 0.6;
+const SKIP_PENALTY = 2;
+
+// Aligning by length is quadratic, so longer texts pair sentences in order
+export const MAX_ALIGNED_SENTENCES = 200;
+
+// Recent alignments by text and translation, since the side-by-side view
+// asks again on every render
+const MAX_CACHED_ALIGNMENTS = 20;
+const cachedAlignments = new Map<string, AlignedSentence[]>();
+
+// Cues keeping the blank line after them, so joining them gives back the text
+const splitCues = (text: string) =>
+  splitCueTexts(text).map((cue, index, cues) =>
+    index < cues.length - 1 ? cue + CUE_SEPARATOR : cue
+  );
+
+const pairInOrder = (source: string[], translation: string[]) =>
+  Array.from(
+    { length: Math.max(source.length, translation.length) },
+    (_, index) => ({
+      source: source[index] ?? "",
+      translation: translation[index] ?? "",
+    })
+  );
+
+// Pairs sentences by length, allowing one sentence to match two on the other
+// side, in the spirit of Gale and Church. Translations rarely keep every
+// sentence boundary, so counting alone would drift after the first merge.
+const alignByLength = (source: string[], translation: string[]) => {
+  const total = (sentences: string[]) =>
+    sentences.reduce((sum, sentence) => sum + sentence.trim().length, 0);
+  const ratio = total(translation) / Math.max(total(source), 1);
+  const cost = (s: string, t: string) =>
+    Math.abs(Math.log((t.trim().length + 1) / (s.trim().length * ratio + 1)));
+
+  // [source taken, translation taken, penalty]
+  const moves: [number, number, number][] = [
+    [1, 1, 0],
+    [1, 2, MERGE_PENALTY],
+    [2, 1, MERGE_PENALTY],
+    [1, 0, SKIP_PENALTY],
+    [0, 1, SKIP_PENALTY],
+  ];
+
+  const n = source.length;
+  const m = translation.length;
+  const best = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(Infinity)
+  );
+  const from = Array.from(
+    { length: n + 1 },
+    () => new Array<[number, number]>(m + 1)
+  );
+  best[0][0] = 0;
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if (best[i][j] === Infinity) continue;
+      for (const [di, dj, penalty] of moves) {
+        if (i + di > n || j + dj > m) continue;
+        const s = source.slice(i, i + di).join("");
+        const t = translation.slice(j, j + dj).join("");
+        const next = best[i][j] + cost(s, t) + penalty;
+        if (next < best[i + di][j + dj]) {
+          best[i + di][j + dj] = next;
+          from[i + di][j + dj] = [i, j];
+        }
+      }
+    }
+  }
+
+  const rows: AlignedSentence[] = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const [pi, pj] = from[i][j];
+    rows.unshift({
+      source: source.slice(pi, i).join(""),
+      translation: translation.slice(pj, j).join(""),
+    });
+    [i, j] = [pi, pj];
+  }
+  return rows;
+};
+
+const align = (text: string, translation: string, isSubtitles: boolean) => {
+  if (isSubtitles) {
+    return pairInOrder(splitCues(text), splitCues(translation));
+  }
+  const source = splitSentences(text);
+  const translated = splitSentences(translation);
+  return source.length === translated.length ||
+    Math.max(source.length, translated.length) > MAX_ALIGNED_SENTENCES
+    ? pairInOrder(source, translated)
+    : alignByLength(source, translated);
+};
+
+// Splits a text and its translation into aligned rows. Subtitle cues pair up
+// by position; prose pairs by sentence length when the counts differ.
+export const alignSentences = (
+  text: string,
+  translation: string,
+  isSubtitles = false
+): AlignedSentence[] => {
+  const key = JSON.stringify([text, translation, isSubtitles]);
+  let rows = cachedAlignments.get(key);
+  if (rows) {
+    // Move it to the back so the least recently used goes first
+    cachedAlignments.delete(key);
+  } else {
+    rows = align(text, translation, isSubtitles);
+    if (cachedAlignments.size >= MAX_CACHED_ALIGNMENTS) {
+      cachedAlignments.delete(cachedAlignments.keys().next().value!);
+    }
+  }
+  cachedAlignments.set(key, rows);
+  return rows;
+};
+
+// The stored alignment for a translation, or a fresh one when there is none
+// or it no longer matches the translation
+export const messageAlignment = (message: Message, language: string) => {
+  const translation = message.translations[language] ?? "";
+  const stored = message.alignments?.[language];
+  return stored && joinTranslation(stored) === translation
+    ? stored
+    : alignSentences(message.text, translation, Boolean(message.subtitles));
+};
+
+// Replaces a row's translation, keeping the whitespace that separated it
+// from the next row. Blank lines would split subtitle cues, so they go.
+export const editAlignedSentence = (
+  rows: AlignedSentence[],
+  index: number,
+  text: string
+) =>
+  rows.map((row, i) => {
+    if (i !== index) return row;
+    const [, leading, , trailing] = row.translation.match(
+      /^(\s*)([\s\S]*?)(\s*)$/
+    )!;
+    return {
+      ...row,
+      translation: leading + text.trim().replace(/\n\s*\n/g, "\n") + trailing,
+      edited: true,
+    };
+  });
+
+export const joinTranslation = (rows: AlignedSentence[]) =>
+  rows.map((row) => row.translation).join("");
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { parseCommand, suggestCompletions } from "./commands";
+import { createI18n } from "./i18n";
+
+const i18n = createI18n("en");
+
+describe("parseCommand", () => {
+  it("leaves plain messages alone", () => {
+    expect(parseCommand(i18n.t, "Hola / adiós")).toBeNull();
+  });
+
+  it("reads chained commands and the message after them", () => {
+    expect(
+      parseCommand(
+        i18n.t,
+        "/lang pt /translate es,FR /summarize tldr short Olá mundo"
+      )
+    ).toEqual({
+      text: "Olá mundo",
+      sourceLanguage: "pt",
+      detect: false,
+      translateTo: ["es", "fr"],
+      summarize: { type: "tl;dr", length: "short", format: "markdown" },
+    });
+  });
+
+  it("applies to the last message without text", () => {
+    expect(parseCommand(i18n.t, "/detect")).toMatchObject({
+      text: "",
+      detect: true,
+    });
+  });
+
+  it("explains what is wrong", () => {
+    expect(() => parseCommand(i18n.t, "/translat es hola")).toThrow(
+      "Unknown command /translat"
+    );
+    expect(() => parseCommand(i18n.t, "/translate")).toThrow(
+      "needs target languages"
+    );
+    expect(() => parseCommand(i18n.t, "/lang 123 hola")).toThrow(
+      "isn't a language code"
+    );
+  });
+
+  it("only accepts languages the picker offers", () => {
+    expect(
+      parseCommand(i18n.t, "/lang pt-BR /translate zh-hant")
+    ).toMatchObject({ sourceLanguage: "pt-BR", translateTo: ["zh-Hant"] });
+    expect(() => parseCommand(i18n.t, "/translate es,xx-Qaaa")).toThrow(
+      'can\'t offer "xx-Qaaa" as a target language'
+    );
+    expect(() => parseCommand(i18n.t, "/lang qaa hola")).toThrow(
+      'doesn\'t know the language "qaa"'
+    );
+  });
+});
+
+describe("suggestCompletions", () => {
+  it("completes command names", () => {
+    expect(
+      suggestCompletions(i18n, "/tr")?.suggestions.map((s) => s.value)
+    ).toEqual(["/translate"]);
+  });
+
+  it("completes the language being added to a list", () => {
+    const completion = suggestCompletions(i18n, "/translate es,fr");
+    expect(completion?.from).toBe("/translate es,".length);
+    expect(completion?.suggestions[0]).toMatchObject({
+      value: "fr",
+      description: "French",
+      endsWord: false,
+    });
+  });
+
+  it("names languages in the interface language", () => {
+    const completion = suggestCompletions(createI18n("es"), "/translate fra");
+    expect(completion?.suggestions[0]).toMatchObject({
+      value: "fr",
+      description: "francés",
+    });
+  });
+
+  it("completes summary options", () => {
+    expect(
+      suggestCompletions(i18n, "/summarize tldr sh")?.suggestions.map(
+        (s) => s.value
+      )
+    ).toEqual(["short"]);
+  });
+
+  it("stops once the message text starts", () => {
+    expect(suggestCompletions(i18n, "/translate fr Ho")).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+import { defaultSummaryOptions, type SummarizeOptions } from "./ai";
+import type { I18n, MessageKey, Translate } from "./i18n";
+import { candidateLanguages, displayLanguageName } from "./languages";
+
+// What a composer input starting with "/" asks for. Commands come first and
+// the rest is the message; without one they apply to the last message.
+export interface Command {
+  text: string;
+  sourceLanguage?: string;
+  detect: boolean;
+  summarize?: SummarizeOptions;
+  translateTo: string[];
+}
+
+export interface CommandSuggestion {
+  // Replaces the word being typed
+  value: string;
+  label: string;
+  description: string;
+  // Lists of languages continue with a comma, so those don't end the word
+  endsWord: boolean;
+}
+
+export const commands: {
+  name: string;
+  usage: string;
+  description: MessageKey;
+}[] = [
+  {
+    name: "/translate",
+    usage: "/translate es,fr",
+    description: "command.translate",
+  },
+  {
+    name: "/summarize",
+    usage: "/summarize tldr short",
+    description: "command.summarize",
+  },
+  {
+    name: "/lang",
+    usage: "/lang pt",
+    description: "command.lang",
+  },
+  {
+    name: "/detect",
+    usage: "/detect",
+    description: "command.detect",
+  },
+];
+
+// Words accepted after /summarize, with what they set
+const summaryWords: Record<string, Partial<SummarizeOptions>> = {
+  "key-points": { type: "key-points" },
+  tldr: { type: "tl;dr" },
+  teaser: { type: "teaser" },
+  headline: { type: "headline" },
+  short: { length: "short" },
+  medium: { length: "medium" },
+  long: { length: "long" },
+  markdown: { format: "markdown" },
+  plain: { format: "plain-text" },
+};
+
+const MAX_SUGGESTIONS = 8;
+
+// Codes must be well formed and name a language the picker offers, with or
+// without a region, so a typo fails here rather than at the backend
+const parseLanguage = (t: Translate, code: string, unknown: MessageKey) => {
+  let canonical: string | undefined;
+  try {
+    [canonical] = Intl.getCanonicalLocales(code);
+  } catch {
+    // Reported below
+  }
+  if (!canonical) throw new Error(t("command.notLanguage", { code }));
+  if (
+    !candidateLanguages.includes(canonical) &&
+    !candidateLanguages.includes(canonical.split("-")[0])
+  ) {
+    throw new Error(t(unknown, { code }));
+  }
+  return canonical;
+};
+
+const commandList = commands.map((command) => command.name).join(", ");
+
+export const isCommand = (input: string) => input.trimStart().startsWith("/");
+
+// Parses leading commands. Returns null for plain messages and throws an
+// Error describing the first problem found.
+export const parseCommand = (t: Translate, input: string): Command | null => {
+  if (!isCommand(input)) return null;
+  let rest = input.trim();
+
+  const command: Command = { text: "", detect: false, translateTo: [] };
+  const nextWord = () => rest.match(/^\S+/)?.[0];
+  const takeWord = () => {
+    const word = nextWord();
+    rest = rest.slice(word?.length ?? 0).trimStart();
+    return word;
+  };
+
+  while (rest.startsWith("/")) {
+    const name = takeWord()!.toLowerCase();
+    switch (name) {
+      case "/translate": {
+        const languages = takeWord();
+        if (!languages || languages.startsWith("/")) {
+          throw new Error(t("command.translateNeedsLanguages"));
+        }
+        command.translateTo.push(
+          ...languages
+            .split(",")
+            .filter(Boolean)
+            .map((code) => parseLanguage(t, code, "command.unknownTarget"))
+        );
+        break;
+      }
+      case "/lang": {
+        const language = takeWord();
+        if (!language || language.startsWith("/")) {
+          throw new Error(t("command.langNeedsLanguage"));
+        }
+        command.sourceLanguage = parseLanguage(
+          t,
+          language,
+          "command.unknownSource"
+        );
+        break;
+      }
+      case "/detect":
+        command.detect = true;
+        break;
+      case "/summarize": {
+        let options = { ...defaultSummaryOptions };
+        let word = nextWord()?.toLowerCase();
+        while (word && word in summaryWords) {
+          options = { ...options, ...summaryWords[word] };
+          takeWord();
+          word = nextWord()?.toLowerCase();
+        }
+        command.summarize = options;
+        break;
+      }
+      default:
+        throw new Error(t("command.unknown", { name, commands: commandList }));
+    }
+  }
+
+  command.text = rest;
+  return command;
+};
+
+// Completions for the word at the end of the input while it is still in
+// the command part. `from` is where that word starts.
+export const suggestCompletions = (
+  { locale, t }: I18n,
+  input: string
+): { from: number; suggestions: CommandSuggestion[] } | null => {
+  if (!input.startsWith("/") || input.includes("\n")) return null;
+
+  const word = input.match(/\S*$/)![0];
+  const words = input.slice(0, input.length - word.length).split(/\s+/);
+  words.pop();
+
+  // Walk the finished words to learn what the last one can be
+  let expecting: "command" | "language" | "languages" | "summary" = "command";
+  for (const finished of words) {
+    if (expecting === "language" || expecting === "languages") {
+      expecting = "command";
+      continue;
+    }
+    if (expecting === "summary" && finished.toLowerCase() in summaryWords) {
+      continue;
+    }
+    const name = finished.toLowerCase();
+    if (name === "/translate") expecting = "languages";
+    else if (name === "/lang") expecting = "language";
+    else if (name === "/summarize") expecting = "summary";
+    else if (name === "/detect") expecting = "command";
+    // Past the commands, in the message itself
+    else return null;
+  }
+
+  let from = input.length - word.length;
+  let suggestions: CommandSuggestion[] = [];
+  const prefix = word.toLowerCase();
+
+  if (prefix.startsWith("/")) {
+    suggestions = commands
+      .filter((command) => command.name.startsWith(prefix))
+      .map((command) => ({
+        value: command.name,
+        label: command.usage,
+        description: t(command.description),
+        endsWord: true,
+      }));
+  } else if (expecting === "language" || expecting === "languages") {
+    const comma = expecting === "languages" ? word.lastIndexOf(",") : -1;
+    const part = prefix.slice(comma + 1);
+    from += comma + 1;
+    suggestions = candidateLanguages
+      .filter(
+        (code) =>
+          code.toLowerCase().startsWith(part) ||
+          displayLanguageName(code, locale).toLowerCase().startsWith(part)
+      )
+      .map((code) => ({
+        value: code,
+        label: code,
+        description: displayLanguageName(code, locale),
+        endsWord: expecting === "language",
+      }));
+  } else if (expecting === "summary" && prefix) {
+    suggestions = Object.keys(summaryWords)
+      .filter((summaryWord) => summaryWord.startsWith(prefix))
+      .map((summaryWord) => ({
+        value: summaryWord,
+        label: summaryWord,
+        description: t("command.summaryOption"),
+        endsWord: true,
+      }));
+  }
+
+  return suggestions.length > 0
+    ? { from, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) }
+    : null;
+};
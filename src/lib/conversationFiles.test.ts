@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { defaultSummaryOptions, summaryKey } from "./ai";
+import { parseConversationJSON, toCSV, toJSON } from "./conversationFiles";
+import { createI18n } from "./i18n";
+import type { Conversation, Message } from "../types";
+
+const { t } = createI18n("en");
+
+const summaryOptions = {
+  ...defaultSummaryOptions,
+  sharedContext: "A greeting",
+};
+
+const message = (overrides: Partial<Message> = {}): Message => ({
+  id: "m1",
+  text: "Hola mundo",
+  language: "es",
+  summaries: {
+    [summaryKey(summaryOptions)]: {
+      options: summaryOptions,
+      text: "Un saludo",
+      language: "es",
+    },
+  },
+  translations: { en: "Hello world" },
+  generated: { shorter: { kind: "shorter", text: "Hola" } },
+  ...overrides,
+});
+
+const conversation = (messages: Message[]): Conversation => ({
+  id: "c1",
+  title: "Greetings",
+  createdAt: 1,
+  updatedAt: 2,
+  messages,
+});
+
+// Exports the conversation and edits its first message as JSON, the way a
+// hand-edited or corrupted file would arrive
+const importEdited = (edit: (message: Record<string, unknown>) => void) => {
+  const data = JSON.parse(toJSON(conversation([message()])));
+  edit(data.conversation.messages[0]);
+  return () => parseConversationJSON(t, JSON.stringify(data));
+};
+
+describe("parseConversationJSON", () => {
+  it("reads back an exported conversation", () => {
+    const imported = parseConversationJSON(
+      t,
+      toJSON(conversation([message()]))
+    );
+    expect(imported).toMatchObject({
+      title: "Greetings",
+      createdAt: 1,
+      messages: [message()],
+    });
+  });
+
+  it("rejects files that aren't exported conversations", () => {
+    expect(() => parseConversationJSON(t, "{")).toThrow("not valid JSON");
+    expect(() => parseConversationJSON(t, '{"format":"other"}')).toThrow(
+      "not an exported conversation"
+    );
+  });
+
+  it("rejects generated text of an unknown kind", () => {
+    expect(
+      importEdited((m) => {
+        m.generated = { poem: { kind: "poem", text: "Hola" } };
+      })
+    ).toThrow('invalid "generated" field');
+  });
+
+  it("rejects malformed summaries", () => {
+    const summary = (m: Record<string, unknown>) =>
+      Object.values(m.summaries as Record<string, Record<string, unknown>>)[0];
+
+    expect(
+      importEdited((m) => {
+        (summary(m).options as Record<string, unknown>).sharedContext = 42;
+      })
+    ).toThrow('invalid "summaries" field');
+    expect(
+      importEdited((m) => {
+        summary(m).language = ["es"];
+      })
+    ).toThrow('invalid "summaries" field');
+    expect(
+      importEdited((m) => {
+        summary(m).memoryMatch = "exact";
+      })
+    ).toThrow('invalid "summaries" field');
+  });
+});
+
+describe("toCSV", () => {
+  it("keeps cells that look like formulas inert", () => {
+    const csv = toCSV(
+      t,
+      conversation([
+        message({
+          text: '=HYPERLINK("http://example.com")',
+          summaries: {},
+          translations: { en: "+1 more", fr: "@home" },
+        }),
+      ])
+    );
+    const [, row] = csv.split("\r\n");
+    expect(row).toBe(
+      `m1,"'=HYPERLINK(""http://example.com"")",es,,'+1 more,'@home`
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  describeSummaryOptions,
+  summaryFormats,
+  summaryKey,
+  summaryLengths,
+  summaryTitle,
+  summaryTypes,
+  type DetectedLanguage,
+} from "./ai";
+import { downloadFile } from "./download";
+import { localize, type I18n, type Translate } from "./i18n";
+import { displayLanguageName } from "./languages";
+import type { SubtitleCue, SubtitleTrack } from "./subtitles";
+import { describeGenerated, rewriteStyles } from "./writingActions";
+import type {
+  AlignedSentence,
+  Conversation,
+  GeneratedText,
+  Message,
+  Summary,
+} from "../types";
+
+const FORMAT = "ai-text-processor/conversation";
+const VERSION = 1;
+
+export type ExportFormat = "json" | "markdown" | "csv";
+
+const fileExtensions: Record<ExportFormat, string> = {
+  json: "json",
+  markdown: "md",
+  csv: "csv",
+};
+
+const mimeTypes: Record<ExportFormat, string> = {
+  json: "application/json",
+  markdown: "text/markdown",
+  csv: "text/csv",
+};
+
+const title = (t: Translate, conversation: Conversation) =>
+  conversation.title || t("export.untitled");
+
+export const toJSON = (conversation: Conversation) =>
+  JSON.stringify({ format: FORMAT, version: VERSION, conversation }, null, 2);
+
+export const toMarkdown = (i18n: I18n, conversation: Conversation) => {
+  const { locale, t } = i18n;
+  const sections = conversation.messages.map((message, index) => {
+    const language = message.language
+      ? displayLanguageName(message.language, locale)
+      : t("source.unknown");
+    const lines = [
+      `## ${t("export.message", { number: index + 1 })}`,
+      "",
+      message.languageOverridden
+        ? `**${t("export.sourceLanguage")}** ${language}`
+        : `**${t("export.detectedLanguage")}** ${language}`,
+      ...(message.source
+        ? ["", `**${t("export.importedFrom")}** ${message.source}`]
+        : []),
+      "",
+      message.text,
+    ];
+    Object.values(message.summaries).forEach((summary) => {
+      lines.push(
+        "",
+        `### ${localize(i18n, summaryTitle(summary.options))}`,
+        "",
+        summary.text
+      );
+    });
+    Object.entries(message.translations).forEach(([language, text]) => {
+      const rows = message.alignments?.[language];
+      const heading = t("translation.title", {
+        language: displayLanguageName(language, locale),
+      });
+      const review = rows
+        ? ` (${t("translation.reviewed", {
+            reviewed: rows.filter((row) => row.reviewed).length,
+            total: rows.length,
+          })})`
+        : "";
+      lines.push("", `### ${heading}${review}`, "", text);
+    });
+    Object.values(message.generated ?? {}).forEach((result) => {
+      lines.push(
+        "",
+        `### ${localize(i18n, describeGenerated(result))}`,
+        "",
+        result.text
+      );
+    });
+    return lines.join("\n");
+  });
+
+  return [`# ${title(t, conversation)}`, ...sections].join("\n\n") + "\n";
+};
+
+// Spreadsheets run cells starting with these as formulas, so such cells get a
+// leading quote to keep user text inert
+const csvCell = (text: string) => {
+  const value = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One row per message, one column per translation language used anywhere in
+// the conversation so reviewers can sort and filter in a spreadsheet.
+export const toCSV = (t: Translate, conversation: Conversation) => {
+  const targetLanguages = [
+    ...new Set(
+      conversation.messages.flatMap((message) =>
+        Object.keys(message.translations)
+      )
+    ),
+  ];
+
+  const header = [
+    "id",
+    "text",
+    "detected_language",
+    "summaries",
+    ...targetLanguages.map((language) => `translation_${language}`),
+  ];
+  const rows = conversation.messages.map((message) => [
+    message.id,
+    message.text,
+    message.language ?? "",
+    Object.values(message.summaries)
+      .map(
+        (summary) =>
+          `${describeSummaryOptions(t, summary.options)}: ${summary.text}`
+      )
+      .join("\n\n"),
+    ...targetLanguages.map((language) => message.translations[language] ?? ""),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+};
+
+export const exportConversation = (
+  i18n: I18n,
+  conversation: Conversation,
+  format: ExportFormat
+) => {
+  const content =
+    format === "json"
+      ? toJSON(conversation)
+      : format === "markdown"
+      ? toMarkdown(i18n, conversation)
+      : toCSV(i18n.t, conversation);
+  const name = title(i18n.t, conversation)
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+
+  downloadFile(
+    `${name || "conversation"}.${fileExtensions[format]}`,
+    content,
+    mimeTypes[format]
+  );
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every((v) => typeof v === "string");
+
+const isOneOf = (options: { value: string }[], value: unknown) =>
+  options.some((option) => option.value === value);
+
+const isOptional = (type: "string" | "number", value: unknown) =>
+  value === undefined || typeof value === type;
+
+const isSummary = (value: unknown): value is Summary =>
+  isObject(value) &&
+  typeof value.text === "string" &&
+  isOptional("string", value.language) &&
+  isOptional("number", value.memoryMatch) &&
+  isObject(value.options) &&
+  isOneOf(summaryTypes, value.options.type) &&
+  isOneOf(summaryLengths, value.options.length) &&
+  isOneOf(summaryFormats, value.options.format) &&
+  isOptional("string", value.options.sharedContext);
+
+const isDetectedLanguage = (value: unknown): value is DetectedLanguage =>
+  isObject(value) &&
+  typeof value.language === "string" &&
+  typeof value.confidence === "number";
+
+const isSubtitleCue = (value: unknown): value is SubtitleCue =>
+  isObject(value) &&
+  typeof value.start === "string" &&
+  typeof value.end === "string" &&
+  typeof value.text === "string";
+
+const isSubtitleTrack = (value: unknown): value is SubtitleTrack =>
+  isObject(value) &&
+  (value.format === "srt" || value.format === "vtt") &&
+  Array.isArray(value.cues) &&
+  value.cues.every(isSubtitleCue);
+
+const isAlignedSentence = (value: unknown): value is AlignedSentence =>
+  isObject(value) &&
+  typeof value.source === "string" &&
+  typeof value.translation === "string";
+
+const isAlignments = (
+  value: unknown
+): value is Record<string, AlignedSentence[]> =>
+  isObject(value) &&
+  Object.values(value).every(
+    (rows) => Array.isArray(rows) && rows.every(isAlignedSentence)
+  );
+
+const isGeneratedText = (value: unknown): value is GeneratedText =>
+  isObject(value) &&
+  (isOneOf(rewriteStyles, value.kind) ||
+    value.kind === "reply" ||
+    value.kind === "answer") &&
+  typeof value.text === "string" &&
+  isOptional("string", value.question);
+
+const isGeneratedRecord = (
+  value: unknown
+): value is Record<string, GeneratedText> =>
+  isObject(value) && Object.values(value).every(isGeneratedText);
+
+const parseMessage = (t: Translate, value: unknown, index: number): Message => {
+  const invalid = (field: string) =>
+    new Error(t("import.invalidField", { number: index + 1, field }));
+
+  if (!isObject(value)) {
+    throw new Error(t("import.notObject", { number: index + 1 }));
+  }
+  if (typeof value.id !== "string") throw invalid("id");
+  if (typeof value.text !== "string") throw invalid("text");
+  if (value.language !== null && typeof value.language !== "string") {
+    throw invalid("language");
+  }
+  if (!isStringRecord(value.translations)) throw invalid("translations");
+  if (
+    !isObject(value.summaries) ||
+    !Object.values(value.summaries).every(isSummary)
+  ) {
+    throw invalid("summaries");
+  }
+
+  if (
+    value.detectedLanguages !== undefined &&
+    !(
+      Array.isArray(value.detectedLanguages) &&
+      value.detectedLanguages.every(isDetectedLanguage)
+    )
+  ) {
+    throw invalid("detectedLanguages");
+  }
+  if (value.subtitles !== undefined && !isSubtitleTrack(value.subtitles)) {
+    throw invalid("subtitles");
+  }
+  if (value.alignments !== undefined && !isAlignments(value.alignments)) {
+    throw invalid("alignments");
+  }
+  if (value.generated !== undefined && !isGeneratedRecord(value.generated)) {
+    throw invalid("generated");
+  }
+
+  // Re-key summaries in case the file was edited by hand
+  const summaries: Record<string, Summary> = {};
+  Object.values(value.summaries as Record<string, Summary>).forEach(
+    (summary) => {
+      summaries[summaryKey(summary.options)] = summary;
+    }
+  );
+
+  return {
+    id: value.id,
+    text: value.text,
+    language: value.language,
+    detectedLanguages: value.detectedLanguages,
+    languageOverridden: value.languageOverridden === true,
+    source: typeof value.source === "string" ? value.source : undefined,
+    subtitles: value.subtitles,
+    summaries,
+    translations: value.translations,
+    generated: value.generated,
+    alignments: value.alignments,
+  };
+};
+
+// Validates an exported JSON file and returns its conversation. Throws an
+// Error describing the first problem found.
+export const parseConversationJSON = (
+  t: Translate,
+  json: string
+): Omit<Conversation, "id"> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t("import.invalidJson"));
+  }
+
+  if (!isObject(data) || data.format !== FORMAT) {
+    throw new Error(t("import.notConversation"));
+  }
+  if (data.version !== VERSION) {
+    throw new Error(
+      t("import.unsupportedVersion", { version: String(data.version) })
+    );
+  }
+
+  const conversation = data.conversation;
+  if (!isObject(conversation) || !Array.isArray(conversation.messages)) {
+    throw new Error(t("import.noMessages"));
+  }
+
+  const now = Date.now();
+  return {
+    title: typeof conversation.title === "string" ? conversation.title : "",
+    createdAt:
+      typeof conversation.createdAt === "number" ? conversation.createdAt : now,
+    updatedAt: now,
+    messages: conversation.messages.map((message, index) =>
+      parseMessage(t, message, index)
+    ),
+  };
+};
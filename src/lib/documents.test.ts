@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { readDocuments } from "./documents";
+import { createI18n } from "./i18n";
+import { pdfToText } from "./pdf";
+
+vi.mock("./pdf", () => ({ pdfToText: vi.fn() }));
+
+const { t } = createI18n("en");
+
+// jsdom's File can't be read as text or bytes, so these come along
+const file = (content: string, name: string, type = "") =>
+  Object.assign(new File([content], name, { type }), {
+    text: async () => content,
+    arrayBuffer: async () => new TextEncoder().encode(content).buffer,
+  });
+
+describe("readDocuments", () => {
+  it("reads plain text and Markdown without a byte order mark", async () => {
+    expect(await readDocuments(t, file("﻿# Hola", "notes.md"))).toEqual([
+      { source: "notes.md", text: "# Hola" },
+    ]);
+    expect(
+      await readDocuments(t, file("Hola", "clipboard", "text/plain"))
+    ).toEqual([{ source: "clipboard", text: "Hola" }]);
+  });
+
+  it("turns HTML into paragraphs of text", async () => {
+    const html =
+      "<h1>Título</h1><script>alert(1)</script><p>Hola <b>mundo</b></p>";
+    expect(await readDocuments(t, file(html, "page.html"))).toEqual([
+      { source: "page.html", text: "Título\n\nHola mundo" },
+    ]);
+  });
+
+  it("keeps a subtitle track in one document", async () => {
+    const srt =
+      "1\n00:00:01,000 --> 00:00:02,000\nHola\n\n2\n00:00:03,000 --> 00:00:04,000\nAdiós\n";
+    const [document] = await readDocuments(t, file(srt, "clip.srt"));
+    expect(document.text).toBe("Hola\n\nAdiós");
+    expect(document.subtitles).toMatchObject({
+      format: "srt",
+      name: "clip.srt",
+    });
+  });
+
+  it("extracts the text of PDFs", async () => {
+    vi.mocked(pdfToText).mockResolvedValueOnce("Página uno\n\nPágina dos");
+    expect(
+      await readDocuments(t, file("%PDF-1.7", "report", "application/pdf"))
+    ).toEqual([{ source: "report", text: "Página uno\n\nPágina dos" }]);
+  });
+
+  it("explains PDFs without text and ones that can't be read", async () => {
+    vi.mocked(pdfToText).mockResolvedValueOnce("");
+    await expect(readDocuments(t, file("%PDF", "scan.pdf"))).rejects.toThrow(
+      "no text to extract"
+    );
+
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    vi.mocked(pdfToText).mockRejectedValueOnce(new Error("Invalid PDF"));
+    await expect(readDocuments(t, file("%PDF", "broken.pdf"))).rejects.toThrow(
+      "couldn't be read"
+    );
+  });
+
+  it("rejects files it can't read text from", async () => {
+    await expect(
+      readDocuments(t, file("PK", "letter.docx", "application/msword"))
+    ).rejects.toThrow("PDF, SRT and VTT files can be imported");
+    await expect(
+      readDocuments(t, file("", "photo.png", "image/png"))
+    ).rejects.toThrow("PDF, SRT and VTT files can be imported");
+  });
+});
@@ -0,0 +1,128 @@
+import type { Translate } from "./i18n";
+import { pdfToText } from "./pdf";
+import {
+  joinCueTexts,
+  parseSubtitles,
+  type SubtitleFormat,
+  type SubtitleTrack,
+} from "./subtitles";
+
+export interface ImportedDocument {
+  // Shown on the message, e.g. "notes.md"
+  source: string;
+  text: string;
+  subtitles?: SubtitleTrack;
+}
+
+export const acceptedFileTypes =
+  ".txt,.text,.md,.markdown,.html,.htm,.pdf,.srt,.vtt,text/plain,text/markdown,text/html,application/pdf,text/vtt";
+
+type DocumentKind = "text" | "html" | "pdf" | SubtitleFormat;
+
+const extensionKinds: Record<string, DocumentKind> = {
+  txt: "text",
+  text: "text",
+  md: "text",
+  markdown: "text",
+  html: "html",
+  htm: "html",
+  pdf: "pdf",
+  srt: "srt",
+  vtt: "vtt",
+};
+
+const kindOf = (file: File): DocumentKind | null => {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (extension in extensionKinds) return extensionKinds[extension];
+  if (file.type === "text/html") return "html";
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type === "text/vtt") return "vtt";
+  if (file.type.startsWith("text/")) return "text";
+  return null;
+};
+
+const blockTags = new Set(
+  (
+    "ADDRESS ARTICLE ASIDE BLOCKQUOTE DD DIV DL DT FIGCAPTION FIGURE FOOTER " +
+    "FORM H1 H2 H3 H4 H5 H6 HEADER HR LI MAIN NAV OL P PRE SECTION TABLE TR UL"
+  ).split(" ")
+);
+const skippedTags = new Set(
+  "HEAD SCRIPT STYLE NOSCRIPT TEMPLATE SVG IFRAME".split(" ")
+);
+
+// Readable text from an HTML document: markup is dropped, block elements
+// become paragraphs and whitespace is collapsed outside <pre>.
+export const htmlToText = (html: string) => {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+
+  const walk = (node: Node, preformatted: boolean): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? "";
+      return preformatted ? text : text.replace(/\s+/g, " ");
+    }
+    if (!(node instanceof Element)) return "";
+
+    const tag = node.tagName.toUpperCase();
+    if (skippedTags.has(tag)) return "";
+    if (tag === "BR") return "\n";
+
+    const inner = Array.from(node.childNodes)
+      .map((child) => walk(child, preformatted || tag === "PRE"))
+      .join("");
+    if (tag === "LI") return `\n- ${inner.trim()}\n`;
+    if (tag === "TD" || tag === "TH") return `${inner.trim()}\t`;
+    return blockTags.has(tag) ? `\n\n${inner}\n\n` : inner;
+  };
+
+  return walk(parsed.body, false)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, "").replace(/^ +/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+// Reads a dropped, picked or pasted file into one or more messages' worth of
+// text. Throws for file types we can't extract text from.
+export const readDocuments = async (
+  t: Translate,
+  file: File
+): Promise<ImportedDocument[]> => {
+  const kind = kindOf(file);
+  if (!kind) throw new Error(t("import.unsupportedType"));
+
+  // Scanned PDFs are images, with no text layer to extract
+  if (kind === "pdf") {
+    let text: string;
+    try {
+      text = await pdfToText(await file.arrayBuffer());
+    } catch (error) {
+      console.error("Reading the PDF failed:", error);
+      throw new Error(t("import.pdfUnreadable"));
+    }
+    if (!text) throw new Error(t("import.pdfNoText"));
+    return [{ source: file.name, text }];
+  }
+
+  const content = await file.text();
+
+  if (kind === "html") {
+    return [{ source: file.name, text: htmlToText(content) }];
+  }
+
+  // A track stays in one message so it downloads as one complete file; its
+  // cues are still translated one call at a time
+  if (kind === "srt" || kind === "vtt") {
+    const track = parseSubtitles(content, kind);
+    return [
+      {
+        source: file.name,
+        text: joinCueTexts(track.cues.map((cue) => cue.text)),
+        subtitles: { ...track, name: file.name },
+      },
+    ];
+  }
+
+  return [{ source: file.name, text: content.replace(/^\uFEFF/, "") }];
+};
@@ -0,0 +1,15 @@
+// Saves text content as a file through a temporary object URL
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${mimeType};charset=utf-8` })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
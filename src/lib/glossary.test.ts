@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  glossaryFor,
+  protectTerms,
+  splitByTerms,
+  type Glossary,
+} from "./glossary";
+
+const glossary: Glossary = {
+  terms: [
+    {
+      id: "t1",
+      sourceLanguage: "en",
+      targetLanguage: "es",
+      source: "dashboard",
+      target: "panel de control",
+    },
+    {
+      id: "t2",
+      sourceLanguage: "en",
+      targetLanguage: "fr",
+      source: "dashboard",
+      target: "tableau de bord",
+    },
+  ],
+  doNotTranslate: ["Acme Cloud", "Acme"],
+};
+
+describe("glossaryFor", () => {
+  it("picks the terms of the language pair and the do-not-translate list", () => {
+    expect(glossaryFor(glossary, "en", "es")).toEqual([
+      { source: "dashboard", target: "panel de control" },
+      { source: "Acme Cloud" },
+      { source: "Acme" },
+    ]);
+  });
+});
+
+describe("protectTerms", () => {
+  it("swaps whole-word terms for placeholders, longest first", () => {
+    const { text } = protectTerms(
+      "Open the Dashboard in Acme Cloud. Dashboards are not Acme's.",
+      glossaryFor(glossary, "en", "es")
+    );
+    expect(text).toBe("Open the ⟦0⟧ in ⟦1⟧. Dashboards are not ⟦2⟧'s.");
+  });
+
+  it("restores required translations and kept terms", () => {
+    const { restore } = protectTerms(
+      "Open the dashboard in Acme Cloud.",
+      glossaryFor(glossary, "en", "es")
+    );
+    expect(restore("Abre el ⟦ 0 ⟧ en ⟦1⟧.")).toBe(
+      "Abre el panel de control en Acme Cloud."
+    );
+  });
+
+  it("leaves text without terms alone", () => {
+    const { text, restore } = protectTerms("Hello world", []);
+    expect(text).toBe("Hello world");
+    expect(restore("Hola ⟦0⟧")).toBe("Hola ⟦0⟧");
+  });
+});
+
+describe("splitByTerms", () => {
+  it("marks the runs matching a term", () => {
+    expect(splitByTerms("Usa Acme Cloud hoy", ["Acme Cloud"])).toEqual([
+      { text: "Usa ", isTerm: false },
+      { text: "Acme Cloud", isTerm: true },
+      { text: " hoy", isTerm: false },
+    ]);
+  });
+});
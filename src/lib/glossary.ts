@@ -0,0 +1,134 @@
+// A required translation for a term between one pair of languages
+export interface GlossaryTerm {
+  id: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  source: string;
+  target: string;
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  // Product names and the like, kept as written in every language
+  doNotTranslate: string[];
+}
+
+// What a term turns into after translation. Without a target the matched
+// text is put back unchanged.
+export interface ProtectedTerm {
+  source: string;
+  target?: string;
+}
+
+const STORAGE_KEY = "glossary";
+
+export const emptyGlossary: Glossary = { terms: [], doNotTranslate: [] };
+
+export const loadGlossary = (): Glossary => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...emptyGlossary, ...JSON.parse(stored) } : emptyGlossary;
+  } catch {
+    return emptyGlossary;
+  }
+};
+
+export const saveGlossary = (glossary: Glossary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+};
+
+// Glossary terms for a language pair, then the do-not-translate list
+export const glossaryFor = (
+  glossary: Glossary,
+  sourceLanguage: string,
+  targetLanguage: string
+): ProtectedTerm[] => [
+  ...glossary.terms
+    .filter(
+      (term) =>
+        term.sourceLanguage === sourceLanguage &&
+        term.targetLanguage === targetLanguage
+    )
+    .map(({ source, target }) => ({ source, target })),
+  ...glossary.doNotTranslate.map((source) => ({ source })),
+];
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches any of the terms as whole words, longest first so "Chrome OS"
+// wins over "Chrome"
+const termPattern = (terms: string[]) => {
+  const alternatives = [...new Set(terms.map((term) => term.trim()))]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return alternatives.length > 0
+    ? new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`,
+        "giu"
+      )
+    : null;
+};
+
+// Translators tend to leave these alone, spaces inside them aside
+const placeholder = (index: number) => `⟦${index}⟧`;
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+// Swaps the terms in a text for placeholders before it is translated.
+// `restore` puts the required translation, or the original text, back into
+// the translation. A placeholder the translator dropped loses its term.
+export const protectTerms = (text: string, terms: ProtectedTerm[]) => {
+  const pattern = termPattern(terms.map((term) => term.source));
+  const replacements: string[] = [];
+  const protectedText = pattern
+    ? text.replace(pattern, (match) => {
+        const term = terms.find(
+          ({ source }) => source.trim().toLowerCase() === match.toLowerCase()
+        );
+        replacements.push(term?.target ?? match);
+        return placeholder(replacements.length - 1);
+      })
+    : text;
+
+  return {
+    text: protectedText,
+    restore: (translated: string) =>
+      replacements.length === 0
+        ? translated
+        : translated.replace(
+            PLACEHOLDER_PATTERN,
+            (match, index: string) => replacements[Number(index)] ?? match
+          ),
+  };
+};
+
+// Splits a text into plain runs and runs matching one of the terms, for
+// highlighting glossary hits
+export const splitByTerms = (text: string, terms: string[]) => {
+  const pattern = termPattern(terms);
+  if (!pattern) return [{ text, isTerm: false }];
+
+  const parts: { text: string; isTerm: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      parts.push({ text: text.slice(last, start), isTerm: false });
+    }
+    parts.push({ text: match[0], isTerm: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), isTerm: false });
+  return parts;
+};
+
+// Terms expected in a translation between the pair, for highlighting
+export const glossaryTargets = (
+  glossary: Glossary,
+  sourceLanguage: string,
+  targetLanguage: string
+) =>
+  glossaryFor(glossary, sourceLanguage, targetLanguage).map(
+    (term) => term.target ?? term.source
+  );
@@ -0,0 +1,334 @@
+import type { CatalogMessage } from ".";
+
+// Source catalog: every other locale has to translate each of these keys
+const en = {
+  "app.title": "AI Text Processor",
+  "app.toggleSidebar": "Toggle conversation list",
+  "app.connected": "AI APIs Connected",
+  "app.limited": "Limited AI features",
+  "app.degraded": "{missing} Everything else keeps working.",
+  "app.dropFiles": "Drop files to add them as messages",
+  "app.dropFormats": "Text, Markdown, HTML, PDF, SRT and VTT",
+  "app.emptyTitle": "No messages yet",
+  "app.emptyHint": "Type something to start processing with AI",
+  "app.detectFailed": "Failed to detect {provider} APIs: {message}",
+  "app.runCommand": "Running the command",
+  "app.sendMessage": "Sending the message",
+  "locale.label": "Interface language",
+
+  "common.dismiss": "Dismiss",
+  "common.retry": "Retry",
+  "common.clear": "Clear",
+  "common.clearAll": "Clear all",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.add": "Add",
+  "common.remove": "Remove {name}",
+
+  "capabilities.missingChrome": {
+    one: "This Chrome AI API is not available: {apis}. Please make sure you are using Chrome with experimental AI features enabled.",
+    other:
+      "Some Chrome AI APIs are not available: {apis}. Please make sure you are using Chrome with experimental AI features enabled.",
+  },
+  "capabilities.missingServer": {
+    one: "This feature is not available from the local server: {apis}. Please make sure the server is running and supports it.",
+    other:
+      "Some features are not available from the local server: {apis}. Please make sure the server is running and supports them.",
+  },
+
+  "gate.checking": "Checking AI API availability...",
+  "gate.chromeTitle": "Chrome AI APIs Not Available",
+  "gate.serverTitle": "Local Server Not Available",
+  "gate.chromeIntro":
+    "This application requires Chrome's experimental AI APIs to function properly, or a local server selected from the AI backend menu.",
+  "gate.serverIntro":
+    "Make sure the server at {url} is running and reachable from this page.",
+  "gate.setupTitle": "To enable the required features:",
+  "gate.openFlags": "Open Chrome and navigate to {url}",
+  "gate.enableFlags": "Search for and enable the following flags:",
+  "gate.optionalFlags":
+    "Optionally, for rewriting, draft replies and questions:",
+  "gate.restart": "Restart your browser",
+  "gate.recheckHint": "Press Re-check below or refresh this page",
+  "gate.errorDetails": "Error details: {details}",
+
+  "recheck.label": "Re-check AI availability",
+  "recheck.button": "Re-check",
+  "recheck.checking": "Checking...",
+
+  "stop.label": "Stop generating",
+  "stop.button": "Stop",
+
+  "error.failed": "{title} failed",
+  "error.failedWith": "{title} failed: {message}",
+  "error.stopped": "The operation was stopped.",
+  "error.unavailable.detect":
+    "Language detection is not available on this device.",
+  "error.unavailable.translate": "Translation is not available on this device.",
+  "error.unavailable.summarize":
+    "Summarization is not available on this device. Please try again later or use a different device.",
+  "error.unavailable.rewrite": "Rewriting is not available on this device.",
+  "error.unavailable.write": "Writing is not available on this device.",
+  "error.unavailable.prompt": "The Prompt API is not available on this device.",
+  "error.unsupportedPair":
+    "Translation from {source} to {target} is not supported.",
+  "error.summaryTooLong":
+    "The text is still too long to summarize after several rounds.",
+  "error.summaryNotShorter":
+    "The text is too long to summarize: summarizing its parts didn't make it any shorter.",
+  "error.serverResponse": "Local server responded with {status} {statusText}",
+  "error.emptyCompletion": "Local server returned an empty completion.",
+  "error.serverUnsupported.summarize":
+    "This local server does not support summarization.",
+  "error.serverUnsupported.rewrite":
+    "This local server does not support rewriting.",
+  "error.serverUnsupported.write":
+    "This local server does not support writing.",
+  "error.serverUnsupported.prompt":
+    "This local server does not support questions.",
+  "errorLog.show": "Show error log",
+  "errorLog.title": "Error log",
+  "errorKind.unavailable": "Unavailable",
+  "errorKind.unsupported-pair": "Unsupported languages",
+  "errorKind.quota-exceeded": "Input too long",
+  "errorKind.aborted": "Stopped",
+  "errorKind.download-failed": "Download failed",
+  "errorKind.unknown": "Error",
+
+  "progress.part": "{label} · part {part} of {total}",
+  "progress.waiting": "Waiting for the model to finish downloading...",
+  "progress.summarizing": "Summarizing",
+  "progress.translating": "Translating",
+  "progress.translatingCues": "Translating cues",
+  "progress.translatingTo": "Translating to {language}",
+
+  "operation.detection": "Language detection",
+  "operation.summary": "Summary ({type} · {length})",
+  "operation.translation": "Translation to {language}",
+  "operation.import": "Import of {file}",
+  "operation.noSourceLanguage": "Source language not detected for this message",
+  "operation.summaryNeedsTranslator":
+    "Summarizing {language} text needs the Translator API to translate it to English first.",
+  "operation.noTextInFile": "No text found in the file.",
+  "operation.noMessageForCommand":
+    "There is no message for the command yet. Add text after it.",
+
+  "composer.placeholder": "Type your message here, or / for commands...",
+  "composer.input": "Message input",
+  "composer.send": "Send message",
+  "composer.suggestions": "Command suggestions",
+  "composer.hint":
+    "Press {enter} to send, {newLine} for new line, type {slash} for commands, or drop files to import them",
+  "composer.poweredBy": "Powered by {provider}",
+
+  "picker.label": "Select language for translation",
+  "picker.button": "Translate to...",
+  "picker.search": "Search languages",
+  "picker.batchHint":
+    "Tick several languages to translate to all of them at once",
+  "picker.checking": "Checking available languages...",
+  "picker.loadFailed": "Couldn't load languages: {message}",
+  "picker.noMatch": "No matching languages",
+  "picker.addToBatch": "Add {language} to batch translation",
+  "picker.ready": "Ready",
+  "picker.needsDownload": "Needs download",
+  "picker.translateBatch": {
+    one: "Translate to {count} language",
+    other: "Translate to {count} languages",
+  },
+
+  "memory.exact": "From memory",
+  "memory.fuzzy": "{percent}% match from earlier",
+  "memory.assembled": "Assembled from remembered sentences",
+  "memory.label": "Translation memory",
+  "memory.title": "Translation memory ({count})",
+  "memory.empty":
+    "Translations and summaries are remembered here and reused when the same text comes up again.",
+  "memory.search": "Search memory",
+  "memory.summaryIn": "Summary · {language}",
+  "memory.delete": "Delete memory entry",
+  "memory.loading": "Loading translation memory",
+  "memory.deleting": "Deleting a memory entry",
+  "memory.clearing": "Clearing translation memory",
+
+  "summary.label": "Summarize text",
+  "summary.button": "Summarize with AI",
+  "summary.unavailable":
+    "Summarization isn't available with the current AI backend.",
+  "summary.title": "AI Summary",
+  "summary.inLanguage": "in {language}",
+  "summary.again": "Summarize again",
+  "summary.formatted": "Formatted",
+  "summary.raw": "Raw",
+  "summary.context": "Context: {context}",
+  "summary.running": "Summarizing...",
+
+  "translation.pending": {
+    one: "Translating...",
+    other: "Translating to {count} languages...",
+  },
+  "translation.unavailable":
+    "Translation isn't available with the current AI backend.",
+  "translation.needsSource":
+    "Translation needs a source language. Pick one from the language badge above.",
+  "translation.lowConfidence":
+    "Detection is only {confidence} sure this is {language}. Check the source language before translating.",
+  "translation.title": "{language} Translation",
+  "translation.reviewed": "{reviewed} of {total} reviewed",
+  "translation.again": "Translate again",
+  "translation.sideBySide": "Side by side",
+  "translation.download": "Download .{format}",
+  "translation.queued": "Waiting for other translations...",
+  "translation.running": "Translating...",
+  "translation.subtitleDownload": "Subtitle download",
+
+  "provider.chrome": "Chrome built-in AI",
+  "provider.http": "Local server",
+  "provider.settings": "AI backend settings",
+  "provider.backend": "AI backend",
+  "provider.serverType": "Server type",
+  "provider.openai": "OpenAI-compatible",
+  "provider.endpoint": "Endpoint URL",
+  "provider.model": "Model",
+  "provider.apiKey": "API key (optional)",
+  "provider.apply": "Apply",
+
+  "preferences.label": "Preferences",
+  "preferences.summaryMinLength": "Offer summaries for messages longer than",
+  "preferences.characters": "characters",
+  "preferences.translateSummaryBack":
+    "Translate summaries of non-English text back to the original language",
+  "preferences.renderMarkdown": "Format messages as Markdown",
+
+  "sidebar.new": "New conversation",
+  "sidebar.untitled": "New conversation",
+  "sidebar.search": "Search conversations",
+  "sidebar.noMatch": "No matching conversations",
+  "sidebar.name": "Conversation name",
+  "sidebar.messages": {
+    one: "{count} message",
+    other: "{count} messages",
+  },
+  "sidebar.rename": "Rename {title}",
+  "sidebar.delete": "Delete {title}",
+  "sidebar.confirmDelete":
+    'Delete "{title}"? Its messages, translations and summaries will be lost.',
+
+  "export.label": "Export or import conversation",
+  "export.button": "Export",
+  "export.as": "Export as {format}",
+  "export.importJson": "Import JSON…",
+  "export.import": "Conversation import",
+  "export.untitled": "Conversation",
+  "export.message": "Message {number}",
+  "export.detectedLanguage": "Detected language:",
+  "export.sourceLanguage": "Source language:",
+  "export.importedFrom": "Imported from:",
+
+  "import.button": "Import files",
+  "import.hint": "Import text, Markdown, HTML, PDF or subtitle files",
+  "import.pdfNoText":
+    "This PDF has no text to extract. Scanned pages need OCR first.",
+  "import.pdfUnreadable":
+    "The PDF couldn't be read. It may be damaged or password protected.",
+  "import.unsupportedType":
+    "Only text, Markdown, HTML, PDF, SRT and VTT files can be imported.",
+  "import.invalidJson": "The file is not valid JSON.",
+  "import.notConversation": "The file is not an exported conversation.",
+  "import.unsupportedVersion":
+    "Unsupported conversation file version: {version}",
+  "import.noMessages": "The file does not contain any messages.",
+  "import.notObject": "Message {number} is not an object.",
+  "import.invalidField": 'Message {number} has an invalid "{field}" field.',
+
+  "download.progress": "Downloading {model}",
+  "download.detect": "language detection model",
+  "download.translate": "{source} → {target} translation model",
+  "download.summarize": "summarization model",
+  "download.rewrite": "rewriting model",
+  "download.write": "writing model",
+  "download.prompt": "prompt model",
+
+  "message.detectUnavailable":
+    "Language detection isn't available with the current AI backend.",
+
+  "source.change": "Change source language",
+  "source.detected": "Detected: {language}",
+  "source.set": "Source: {language}",
+  "source.setManually": "(set manually)",
+  "source.detectedHeading": "Detected",
+  "source.search": "Pick another language",
+  "source.searchLabel": "Search source languages",
+  "source.unknown": "Unknown",
+
+  "bilingual.edit": "Edit sentence {number}",
+  "bilingual.editTranslation": "Edit translated sentence {number}",
+  "bilingual.markReviewed": "Mark sentence {number} as reviewed",
+  "bilingual.noMatch": "No matching sentence",
+  "bilingual.edited": "edited",
+
+  "writing.reply": "Draft a reply",
+  "writing.ask": "Ask a question",
+  "writing.question": "Question about this text",
+  "writing.questionPlaceholder": "What would you like to know about this text?",
+  "writing.askButton": "Ask",
+  "writing.running": "Writing...",
+  "rewrite.more-formal": "More formal",
+  "rewrite.more-casual": "More casual",
+  "rewrite.shorter": "Shorter",
+  "generated.reply": "Draft reply",
+  "generated.answer": "Q: {question}",
+  "generated.rewrite": "{style} rewrite",
+
+  "glossary.label": "Glossary",
+  "glossary.sourceLanguage": "Glossary source language",
+  "glossary.targetLanguage": "Glossary target language",
+  "glossary.term": "Term",
+  "glossary.sourceTerm": "Source term",
+  "glossary.translateAs": "Translate as",
+  "glossary.requiredTranslation": "Required translation",
+  "glossary.addTerm": "Add term",
+  "glossary.empty": "No glossary terms yet.",
+  "glossary.doNotTranslate": "Do not translate",
+  "glossary.keptPlaceholder": "Product name, brand...",
+  "glossary.keptTerm": "Term to keep untranslated",
+  "glossary.highlighted": "Glossary term",
+
+  "summaryOptions.label": "Summary options",
+  "summaryOptions.type": "Type",
+  "summaryOptions.length": "Length",
+  "summaryOptions.format": "Format",
+  "summaryOptions.context": "Shared context (optional)",
+  "summaryOptions.contextPlaceholder":
+    "e.g. These are product reviews for a phone",
+  "summaryOptions.submit": "Summarize",
+  "summaryType.key-points": "Key points",
+  "summaryType.tl;dr": "TL;DR",
+  "summaryType.teaser": "Teaser",
+  "summaryType.headline": "Headline",
+  "summaryLength.short": "Short",
+  "summaryLength.medium": "Medium",
+  "summaryLength.long": "Long",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Plain text",
+
+  "command.translate": "Translate to one or more languages",
+  "command.summarize": "Summarize, optionally picking type, length and format",
+  "command.lang": "Set the source language",
+  "command.detect": "Detect the source language again",
+  "command.summaryOption": "Summary option",
+  "command.translateNeedsLanguages":
+    "/translate needs target languages, e.g. es,fr.",
+  "command.langNeedsLanguage": "/lang needs a language, e.g. pt.",
+  "command.notLanguage":
+    '"{code}" isn\'t a language code, e.g. "es" or "pt-BR".',
+  "command.unknownTarget":
+    '/translate can\'t offer "{code}" as a target language.',
+  "command.unknownSource": '/lang doesn\'t know the language "{code}".',
+  "command.unknown": "Unknown command {name}. Try {commands}.",
+
+  "subtitles.cueMismatch":
+    "The translation has {translated} cues but the original has {original}.",
+} satisfies Record<string, CatalogMessage>;
+
+export default en;
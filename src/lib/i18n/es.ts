@@ -0,0 +1,338 @@
+import type { Catalog } from ".";
+
+const es: Catalog = {
+  "app.title": "Procesador de texto con IA",
+  "app.toggleSidebar": "Mostrar u ocultar conversaciones",
+  "app.connected": "APIs de IA conectadas",
+  "app.limited": "Funciones de IA limitadas",
+  "app.degraded": "{missing} Todo lo demás sigue funcionando.",
+  "app.dropFiles": "Suelta archivos para añadirlos como mensajes",
+  "app.dropFormats": "Texto, Markdown, HTML, PDF, SRT y VTT",
+  "app.emptyTitle": "Todavía no hay mensajes",
+  "app.emptyHint": "Escribe algo para empezar a procesarlo con IA",
+  "app.detectFailed":
+    "No se pudieron detectar las APIs de {provider}: {message}",
+  "app.runCommand": "Ejecutar el comando",
+  "app.sendMessage": "Enviar el mensaje",
+  "locale.label": "Idioma de la interfaz",
+
+  "common.dismiss": "Descartar",
+  "common.retry": "Reintentar",
+  "common.clear": "Limpiar",
+  "common.clearAll": "Borrar todo",
+  "common.save": "Guardar",
+  "common.cancel": "Cancelar",
+  "common.add": "Añadir",
+  "common.remove": "Quitar {name}",
+
+  "capabilities.missingChrome": {
+    one: "Esta API de IA de Chrome no está disponible: {apis}. Asegúrate de usar Chrome con las funciones experimentales de IA activadas.",
+    other:
+      "Algunas APIs de IA de Chrome no están disponibles: {apis}. Asegúrate de usar Chrome con las funciones experimentales de IA activadas.",
+  },
+  "capabilities.missingServer": {
+    one: "Esta función no está disponible en el servidor local: {apis}. Asegúrate de que el servidor está en marcha y la admite.",
+    other:
+      "Algunas funciones no están disponibles en el servidor local: {apis}. Asegúrate de que el servidor está en marcha y las admite.",
+  },
+
+  "gate.checking": "Comprobando la disponibilidad de las APIs de IA...",
+  "gate.chromeTitle": "APIs de IA de Chrome no disponibles",
+  "gate.serverTitle": "Servidor local no disponible",
+  "gate.chromeIntro":
+    "Esta aplicación necesita las APIs experimentales de IA de Chrome para funcionar correctamente, o un servidor local elegido en el menú de backend de IA.",
+  "gate.serverIntro":
+    "Asegúrate de que el servidor en {url} está en marcha y es accesible desde esta página.",
+  "gate.setupTitle": "Para activar las funciones necesarias:",
+  "gate.openFlags": "Abre Chrome y ve a {url}",
+  "gate.enableFlags": "Busca y activa estas flags:",
+  "gate.optionalFlags":
+    "Opcionalmente, para reescribir, redactar respuestas y hacer preguntas:",
+  "gate.restart": "Reinicia el navegador",
+  "gate.recheckHint": "Pulsa Volver a comprobar o recarga esta página",
+  "gate.errorDetails": "Detalles del error: {details}",
+
+  "recheck.label": "Volver a comprobar la disponibilidad de la IA",
+  "recheck.button": "Volver a comprobar",
+  "recheck.checking": "Comprobando...",
+
+  "stop.label": "Detener la generación",
+  "stop.button": "Detener",
+
+  "error.failed": "{title}: error",
+  "error.failedWith": "{title}: error. {message}",
+  "error.stopped": "La operación se detuvo.",
+  "error.unavailable.detect":
+    "La detección de idioma no está disponible en este dispositivo.",
+  "error.unavailable.translate":
+    "La traducción no está disponible en este dispositivo.",
+  "error.unavailable.summarize":
+    "El resumen no está disponible en este dispositivo. Inténtalo más tarde o usa otro dispositivo.",
+  "error.unavailable.rewrite":
+    "La reescritura no está disponible en este dispositivo.",
+  "error.unavailable.write":
+    "La redacción no está disponible en este dispositivo.",
+  "error.unavailable.prompt":
+    "La Prompt API no está disponible en este dispositivo.",
+  "error.unsupportedPair": "No se admite la traducción de {source} a {target}.",
+  "error.summaryTooLong":
+    "El texto sigue siendo demasiado largo para resumirlo después de varias rondas.",
+  "error.summaryNotShorter":
+    "El texto es demasiado largo para resumirlo: resumir sus partes no lo acortó.",
+  "error.serverResponse":
+    "El servidor local respondió con {status} {statusText}",
+  "error.emptyCompletion": "El servidor local devolvió una respuesta vacía.",
+  "error.serverUnsupported.summarize":
+    "Este servidor local no admite resúmenes.",
+  "error.serverUnsupported.rewrite":
+    "Este servidor local no admite reescrituras.",
+  "error.serverUnsupported.write":
+    "Este servidor local no admite la redacción.",
+  "error.serverUnsupported.prompt": "Este servidor local no admite preguntas.",
+  "errorLog.show": "Mostrar registro de errores",
+  "errorLog.title": "Registro de errores",
+  "errorKind.unavailable": "No disponible",
+  "errorKind.unsupported-pair": "Idiomas no admitidos",
+  "errorKind.quota-exceeded": "Texto demasiado largo",
+  "errorKind.aborted": "Detenido",
+  "errorKind.download-failed": "Falló la descarga",
+  "errorKind.unknown": "Error",
+
+  "progress.part": "{label} · parte {part} de {total}",
+  "progress.waiting": "Esperando a que termine de descargarse el modelo...",
+  "progress.summarizing": "Resumiendo",
+  "progress.translating": "Traduciendo",
+  "progress.translatingCues": "Traduciendo subtítulos",
+  "progress.translatingTo": "Traduciendo al {language}",
+
+  "operation.detection": "Detección de idioma",
+  "operation.summary": "Resumen ({type} · {length})",
+  "operation.translation": "Traducción al {language}",
+  "operation.import": "Importación de {file}",
+  "operation.noSourceLanguage":
+    "No se ha detectado el idioma de origen de este mensaje",
+  "operation.summaryNeedsTranslator":
+    "Para resumir texto en {language} hace falta la API Translator, que primero lo traduce al inglés.",
+  "operation.noTextInFile": "No se encontró texto en el archivo.",
+  "operation.noMessageForCommand":
+    "Todavía no hay ningún mensaje para el comando. Añade texto después de él.",
+
+  "composer.placeholder": "Escribe tu mensaje aquí, o / para comandos...",
+  "composer.input": "Campo de mensaje",
+  "composer.send": "Enviar mensaje",
+  "composer.suggestions": "Sugerencias de comandos",
+  "composer.hint":
+    "Pulsa {enter} para enviar, {newLine} para una nueva línea, escribe {slash} para comandos o suelta archivos para importarlos",
+  "composer.poweredBy": "Con la tecnología de {provider}",
+
+  "picker.label": "Elegir idioma de traducción",
+  "picker.button": "Traducir al...",
+  "picker.search": "Buscar idiomas",
+  "picker.batchHint": "Marca varios idiomas para traducir a todos a la vez",
+  "picker.checking": "Comprobando los idiomas disponibles...",
+  "picker.loadFailed": "No se pudieron cargar los idiomas: {message}",
+  "picker.noMatch": "Ningún idioma coincide",
+  "picker.addToBatch": "Añadir {language} a la traducción por lotes",
+  "picker.ready": "Listo",
+  "picker.needsDownload": "Requiere descarga",
+  "picker.translateBatch": {
+    one: "Traducir a {count} idioma",
+    other: "Traducir a {count} idiomas",
+  },
+
+  "memory.exact": "De la memoria",
+  "memory.fuzzy": "Coincidencia del {percent} % con uno anterior",
+  "memory.assembled": "Compuesta con frases recordadas",
+  "memory.label": "Memoria de traducción",
+  "memory.title": "Memoria de traducción ({count})",
+  "memory.empty":
+    "Las traducciones y los resúmenes se recuerdan aquí y se reutilizan cuando vuelve a aparecer el mismo texto.",
+  "memory.search": "Buscar en la memoria",
+  "memory.summaryIn": "Resumen · {language}",
+  "memory.delete": "Eliminar entrada de la memoria",
+  "memory.loading": "Cargar la memoria de traducción",
+  "memory.deleting": "Eliminar una entrada de la memoria",
+  "memory.clearing": "Vaciar la memoria de traducción",
+
+  "summary.label": "Resumir texto",
+  "summary.button": "Resumir con IA",
+  "summary.unavailable":
+    "El resumen no está disponible con el backend de IA actual.",
+  "summary.title": "Resumen de IA",
+  "summary.inLanguage": "en {language}",
+  "summary.again": "Volver a resumir",
+  "summary.formatted": "Con formato",
+  "summary.raw": "Original",
+  "summary.context": "Contexto: {context}",
+  "summary.running": "Resumiendo...",
+
+  "translation.pending": {
+    one: "Traduciendo...",
+    other: "Traduciendo a {count} idiomas...",
+  },
+  "translation.unavailable":
+    "La traducción no está disponible con el backend de IA actual.",
+  "translation.needsSource":
+    "Para traducir hace falta un idioma de origen. Elige uno en la etiqueta de idioma de arriba.",
+  "translation.lowConfidence":
+    "La detección solo está segura al {confidence} de que esto es {language}. Revisa el idioma de origen antes de traducir.",
+  "translation.title": "Traducción al {language}",
+  "translation.reviewed": "{reviewed} de {total} revisadas",
+  "translation.again": "Volver a traducir",
+  "translation.sideBySide": "En paralelo",
+  "translation.download": "Descargar .{format}",
+  "translation.queued": "Esperando a otras traducciones...",
+  "translation.running": "Traduciendo...",
+  "translation.subtitleDownload": "Descarga de subtítulos",
+
+  "provider.chrome": "IA integrada de Chrome",
+  "provider.http": "Servidor local",
+  "provider.settings": "Ajustes del backend de IA",
+  "provider.backend": "Backend de IA",
+  "provider.serverType": "Tipo de servidor",
+  "provider.openai": "Compatible con OpenAI",
+  "provider.endpoint": "URL del endpoint",
+  "provider.model": "Modelo",
+  "provider.apiKey": "Clave de API (opcional)",
+  "provider.apply": "Aplicar",
+
+  "preferences.label": "Preferencias",
+  "preferences.summaryMinLength": "Ofrecer resúmenes para mensajes de más de",
+  "preferences.characters": "caracteres",
+  "preferences.translateSummaryBack":
+    "Traducir los resúmenes de textos que no están en inglés de vuelta al idioma original",
+  "preferences.renderMarkdown": "Dar formato Markdown a los mensajes",
+
+  "sidebar.new": "Nueva conversación",
+  "sidebar.untitled": "Nueva conversación",
+  "sidebar.search": "Buscar conversaciones",
+  "sidebar.noMatch": "No hay conversaciones que coincidan",
+  "sidebar.name": "Nombre de la conversación",
+  "sidebar.messages": {
+    one: "{count} mensaje",
+    other: "{count} mensajes",
+  },
+  "sidebar.rename": "Cambiar el nombre de {title}",
+  "sidebar.delete": "Eliminar {title}",
+  "sidebar.confirmDelete":
+    "¿Eliminar «{title}»? Se perderán sus mensajes, traducciones y resúmenes.",
+
+  "export.label": "Exportar o importar la conversación",
+  "export.button": "Exportar",
+  "export.as": "Exportar como {format}",
+  "export.importJson": "Importar JSON…",
+  "export.import": "Importación de la conversación",
+  "export.untitled": "Conversación",
+  "export.message": "Mensaje {number}",
+  "export.detectedLanguage": "Idioma detectado:",
+  "export.sourceLanguage": "Idioma de origen:",
+  "export.importedFrom": "Importado de:",
+
+  "import.button": "Importar archivos",
+  "import.hint": "Importar archivos de texto, Markdown, HTML, PDF o subtítulos",
+  "import.pdfNoText":
+    "Este PDF no tiene texto que extraer. Las páginas escaneadas necesitan OCR antes.",
+  "import.pdfUnreadable":
+    "No se pudo leer el PDF. Puede estar dañado o protegido con contraseña.",
+  "import.unsupportedType":
+    "Solo se pueden importar archivos de texto, Markdown, HTML, PDF, SRT y VTT.",
+  "import.invalidJson": "El archivo no es un JSON válido.",
+  "import.notConversation": "El archivo no es una conversación exportada.",
+  "import.unsupportedVersion":
+    "Versión de archivo de conversación no compatible: {version}",
+  "import.noMessages": "El archivo no contiene ningún mensaje.",
+  "import.notObject": "El mensaje {number} no es un objeto.",
+  "import.invalidField":
+    "El mensaje {number} tiene un campo «{field}» no válido.",
+
+  "download.progress": "Descargando {model}",
+  "download.detect": "el modelo de detección de idioma",
+  "download.translate": "el modelo de traducción {source} → {target}",
+  "download.summarize": "el modelo de resumen",
+  "download.rewrite": "el modelo de reescritura",
+  "download.write": "el modelo de redacción",
+  "download.prompt": "el modelo de preguntas",
+
+  "message.detectUnavailable":
+    "La detección de idioma no está disponible con el backend de IA actual.",
+
+  "source.change": "Cambiar el idioma de origen",
+  "source.detected": "Detectado: {language}",
+  "source.set": "Origen: {language}",
+  "source.setManually": "(elegido manualmente)",
+  "source.detectedHeading": "Detectados",
+  "source.search": "Elige otro idioma",
+  "source.searchLabel": "Buscar idiomas de origen",
+  "source.unknown": "Desconocido",
+
+  "bilingual.edit": "Editar la frase {number}",
+  "bilingual.editTranslation": "Editar la frase traducida {number}",
+  "bilingual.markReviewed": "Marcar la frase {number} como revisada",
+  "bilingual.noMatch": "No hay frase correspondiente",
+  "bilingual.edited": "editada",
+
+  "writing.reply": "Redactar una respuesta",
+  "writing.ask": "Hacer una pregunta",
+  "writing.question": "Pregunta sobre este texto",
+  "writing.questionPlaceholder": "¿Qué quieres saber sobre este texto?",
+  "writing.askButton": "Preguntar",
+  "writing.running": "Escribiendo...",
+  "rewrite.more-formal": "Más formal",
+  "rewrite.more-casual": "Más informal",
+  "rewrite.shorter": "Más corto",
+  "generated.reply": "Borrador de respuesta",
+  "generated.answer": "P: {question}",
+  "generated.rewrite": "Reescritura: {style}",
+
+  "glossary.label": "Glosario",
+  "glossary.sourceLanguage": "Idioma de origen del glosario",
+  "glossary.targetLanguage": "Idioma de destino del glosario",
+  "glossary.term": "Término",
+  "glossary.sourceTerm": "Término de origen",
+  "glossary.translateAs": "Traducir como",
+  "glossary.requiredTranslation": "Traducción obligatoria",
+  "glossary.addTerm": "Añadir término",
+  "glossary.empty": "Todavía no hay términos en el glosario.",
+  "glossary.doNotTranslate": "No traducir",
+  "glossary.keptPlaceholder": "Nombre de producto, marca...",
+  "glossary.keptTerm": "Término que no se traduce",
+  "glossary.highlighted": "Término del glosario",
+
+  "summaryOptions.label": "Opciones de resumen",
+  "summaryOptions.type": "Tipo",
+  "summaryOptions.length": "Longitud",
+  "summaryOptions.format": "Formato",
+  "summaryOptions.context": "Contexto compartido (opcional)",
+  "summaryOptions.contextPlaceholder": "p. ej., son reseñas de un teléfono",
+  "summaryOptions.submit": "Resumir",
+  "summaryType.key-points": "Puntos clave",
+  "summaryType.tl;dr": "En resumen",
+  "summaryType.teaser": "Adelanto",
+  "summaryType.headline": "Titular",
+  "summaryLength.short": "Corto",
+  "summaryLength.medium": "Medio",
+  "summaryLength.long": "Largo",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Texto sin formato",
+
+  "command.translate": "Traducir a uno o varios idiomas",
+  "command.summarize":
+    "Resumir, eligiendo opcionalmente tipo, longitud y formato",
+  "command.lang": "Fijar el idioma de origen",
+  "command.detect": "Volver a detectar el idioma de origen",
+  "command.summaryOption": "Opción de resumen",
+  "command.translateNeedsLanguages":
+    "/translate necesita idiomas de destino, p. ej., es,fr.",
+  "command.langNeedsLanguage": "/lang necesita un idioma, p. ej., pt.",
+  "command.notLanguage":
+    "«{code}» no es un código de idioma, p. ej., «es» o «pt-BR».",
+  "command.unknownTarget":
+    "/translate no ofrece «{code}» como idioma de destino.",
+  "command.unknownSource": "/lang no conoce el idioma «{code}».",
+  "command.unknown": "Comando desconocido {name}. Prueba con {commands}.",
+
+  "subtitles.cueMismatch":
+    "La traducción tiene {translated} subtítulos, pero el original tiene {original}.",
+};
+
+export default es;
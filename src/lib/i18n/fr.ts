@@ -0,0 +1,343 @@
+import type { Catalog } from ".";
+
+const fr: Catalog = {
+  "app.title": "Traitement de texte par IA",
+  "app.toggleSidebar": "Afficher ou masquer les conversations",
+  "app.connected": "API d’IA connectées",
+  "app.limited": "Fonctions d’IA limitées",
+  "app.degraded": "{missing} Tout le reste continue de fonctionner.",
+  "app.dropFiles": "Déposez des fichiers pour les ajouter comme messages",
+  "app.dropFormats": "Texte, Markdown, HTML, PDF, SRT et VTT",
+  "app.emptyTitle": "Aucun message pour l’instant",
+  "app.emptyHint": "Saisissez du texte pour commencer à le traiter avec l’IA",
+  "app.detectFailed": "Impossible de détecter les API {provider} : {message}",
+  "app.runCommand": "Exécution de la commande",
+  "app.sendMessage": "Envoi du message",
+  "locale.label": "Langue de l’interface",
+
+  "common.dismiss": "Ignorer",
+  "common.retry": "Réessayer",
+  "common.clear": "Effacer",
+  "common.clearAll": "Tout effacer",
+  "common.save": "Enregistrer",
+  "common.cancel": "Annuler",
+  "common.add": "Ajouter",
+  "common.remove": "Retirer {name}",
+
+  "capabilities.missingChrome": {
+    one: "Cette API d’IA de Chrome n’est pas disponible : {apis}. Vérifiez que vous utilisez Chrome avec les fonctions d’IA expérimentales activées.",
+    other:
+      "Certaines API d’IA de Chrome ne sont pas disponibles : {apis}. Vérifiez que vous utilisez Chrome avec les fonctions d’IA expérimentales activées.",
+  },
+  "capabilities.missingServer": {
+    one: "Cette fonction n’est pas disponible sur le serveur local : {apis}. Vérifiez que le serveur est démarré et la prend en charge.",
+    other:
+      "Certaines fonctions ne sont pas disponibles sur le serveur local : {apis}. Vérifiez que le serveur est démarré et les prend en charge.",
+  },
+
+  "gate.checking": "Vérification de la disponibilité des API d’IA...",
+  "gate.chromeTitle": "API d’IA de Chrome indisponibles",
+  "gate.serverTitle": "Serveur local indisponible",
+  "gate.chromeIntro":
+    "Cette application a besoin des API d’IA expérimentales de Chrome pour fonctionner correctement, ou d’un serveur local choisi dans le menu du backend d’IA.",
+  "gate.serverIntro":
+    "Vérifiez que le serveur à l’adresse {url} est démarré et accessible depuis cette page.",
+  "gate.setupTitle": "Pour activer les fonctions nécessaires :",
+  "gate.openFlags": "Ouvrez Chrome et allez à {url}",
+  "gate.enableFlags": "Recherchez et activez les flags suivants :",
+  "gate.optionalFlags":
+    "En option, pour la reformulation, les brouillons de réponse et les questions :",
+  "gate.restart": "Redémarrez le navigateur",
+  "gate.recheckHint": "Cliquez sur Revérifier ou actualisez cette page",
+  "gate.errorDetails": "Détails de l’erreur : {details}",
+
+  "recheck.label": "Revérifier la disponibilité de l’IA",
+  "recheck.button": "Revérifier",
+  "recheck.checking": "Vérification...",
+
+  "stop.label": "Arrêter la génération",
+  "stop.button": "Arrêter",
+
+  "error.failed": "{title} : échec",
+  "error.failedWith": "{title} : échec. {message}",
+  "error.stopped": "L’opération a été arrêtée.",
+  "error.unavailable.detect":
+    "La détection de la langue n’est pas disponible sur cet appareil.",
+  "error.unavailable.translate":
+    "La traduction n’est pas disponible sur cet appareil.",
+  "error.unavailable.summarize":
+    "Le résumé n’est pas disponible sur cet appareil. Réessayez plus tard ou utilisez un autre appareil.",
+  "error.unavailable.rewrite":
+    "La réécriture n’est pas disponible sur cet appareil.",
+  "error.unavailable.write":
+    "La rédaction n’est pas disponible sur cet appareil.",
+  "error.unavailable.prompt":
+    "La Prompt API n’est pas disponible sur cet appareil.",
+  "error.unsupportedPair":
+    "La traduction de {source} vers {target} n’est pas prise en charge.",
+  "error.summaryTooLong":
+    "Le texte est encore trop long à résumer après plusieurs passes.",
+  "error.summaryNotShorter":
+    "Le texte est trop long à résumer : résumer ses parties ne l’a pas raccourci.",
+  "error.serverResponse": "Le serveur local a répondu {status} {statusText}",
+  "error.emptyCompletion": "Le serveur local a renvoyé une réponse vide.",
+  "error.serverUnsupported.summarize":
+    "Ce serveur local ne prend pas en charge les résumés.",
+  "error.serverUnsupported.rewrite":
+    "Ce serveur local ne prend pas en charge la réécriture.",
+  "error.serverUnsupported.write":
+    "Ce serveur local ne prend pas en charge la rédaction.",
+  "error.serverUnsupported.prompt":
+    "Ce serveur local ne prend pas en charge les questions.",
+  "errorLog.show": "Afficher le journal des erreurs",
+  "errorLog.title": "Journal des erreurs",
+  "errorKind.unavailable": "Indisponible",
+  "errorKind.unsupported-pair": "Langues non prises en charge",
+  "errorKind.quota-exceeded": "Texte trop long",
+  "errorKind.aborted": "Arrêté",
+  "errorKind.download-failed": "Échec du téléchargement",
+  "errorKind.unknown": "Erreur",
+
+  "progress.part": "{label} · partie {part} sur {total}",
+  "progress.waiting": "En attente de la fin du téléchargement du modèle...",
+  "progress.summarizing": "Résumé en cours",
+  "progress.translating": "Traduction en cours",
+  "progress.translatingCues": "Traduction des sous-titres",
+  "progress.translatingTo": "Traduction en {language}",
+
+  "operation.detection": "Détection de la langue",
+  "operation.summary": "Résumé ({type} · {length})",
+  "operation.translation": "Traduction en {language}",
+  "operation.import": "Importation de {file}",
+  "operation.noSourceLanguage":
+    "La langue source de ce message n’a pas été détectée",
+  "operation.summaryNeedsTranslator":
+    "Résumer un texte en {language} nécessite l’API Translator pour le traduire d’abord en anglais.",
+  "operation.noTextInFile": "Aucun texte trouvé dans le fichier.",
+  "operation.noMessageForCommand":
+    "Il n’y a pas encore de message pour la commande. Ajoutez du texte après celle-ci.",
+
+  "composer.placeholder":
+    "Saisissez votre message ici, ou / pour les commandes...",
+  "composer.input": "Saisie du message",
+  "composer.send": "Envoyer le message",
+  "composer.suggestions": "Suggestions de commandes",
+  "composer.hint":
+    "Appuyez sur {enter} pour envoyer, {newLine} pour aller à la ligne, tapez {slash} pour les commandes ou déposez des fichiers pour les importer",
+  "composer.poweredBy": "Propulsé par {provider}",
+
+  "picker.label": "Choisir la langue de traduction",
+  "picker.button": "Traduire en...",
+  "picker.search": "Rechercher une langue",
+  "picker.batchHint":
+    "Cochez plusieurs langues pour les traduire toutes en une fois",
+  "picker.checking": "Vérification des langues disponibles...",
+  "picker.loadFailed": "Impossible de charger les langues : {message}",
+  "picker.noMatch": "Aucune langue correspondante",
+  "picker.addToBatch": "Ajouter {language} à la traduction groupée",
+  "picker.ready": "Prête",
+  "picker.needsDownload": "À télécharger",
+  "picker.translateBatch": {
+    one: "Traduire en {count} langue",
+    other: "Traduire en {count} langues",
+  },
+
+  "memory.exact": "Depuis la mémoire",
+  "memory.fuzzy": "Correspondance à {percent} % avec un texte précédent",
+  "memory.assembled": "Assemblée à partir de phrases mémorisées",
+  "memory.label": "Mémoire de traduction",
+  "memory.title": "Mémoire de traduction ({count})",
+  "memory.empty":
+    "Les traductions et les résumés sont mémorisés ici et réutilisés quand le même texte revient.",
+  "memory.search": "Rechercher dans la mémoire",
+  "memory.summaryIn": "Résumé · {language}",
+  "memory.delete": "Supprimer l’entrée de la mémoire",
+  "memory.loading": "Chargement de la mémoire de traduction",
+  "memory.deleting": "Suppression d’une entrée de la mémoire",
+  "memory.clearing": "Vidage de la mémoire de traduction",
+
+  "summary.label": "Résumer le texte",
+  "summary.button": "Résumer avec l’IA",
+  "summary.unavailable":
+    "Le résumé n’est pas disponible avec le backend d’IA actuel.",
+  "summary.title": "Résumé par IA",
+  "summary.inLanguage": "en {language}",
+  "summary.again": "Résumer à nouveau",
+  "summary.formatted": "Mis en forme",
+  "summary.raw": "Brut",
+  "summary.context": "Contexte : {context}",
+  "summary.running": "Résumé en cours...",
+
+  "translation.pending": {
+    one: "Traduction en cours...",
+    other: "Traduction en {count} langues...",
+  },
+  "translation.unavailable":
+    "La traduction n’est pas disponible avec le backend d’IA actuel.",
+  "translation.needsSource":
+    "La traduction a besoin d’une langue source. Choisissez-en une dans le badge de langue ci-dessus.",
+  "translation.lowConfidence":
+    "La détection n’est sûre qu’à {confidence} qu’il s’agit de : {language}. Vérifiez la langue source avant de traduire.",
+  "translation.title": "Traduction en {language}",
+  "translation.reviewed": "{reviewed} sur {total} relues",
+  "translation.again": "Traduire à nouveau",
+  "translation.sideBySide": "Côte à côte",
+  "translation.download": "Télécharger le .{format}",
+  "translation.queued": "En attente des autres traductions...",
+  "translation.running": "Traduction en cours...",
+  "translation.subtitleDownload": "Téléchargement des sous-titres",
+
+  "provider.chrome": "IA intégrée de Chrome",
+  "provider.http": "Serveur local",
+  "provider.settings": "Paramètres du backend d’IA",
+  "provider.backend": "Backend d’IA",
+  "provider.serverType": "Type de serveur",
+  "provider.openai": "Compatible OpenAI",
+  "provider.endpoint": "URL du point d’accès",
+  "provider.model": "Modèle",
+  "provider.apiKey": "Clé d’API (facultative)",
+  "provider.apply": "Appliquer",
+
+  "preferences.label": "Préférences",
+  "preferences.summaryMinLength":
+    "Proposer des résumés pour les messages de plus de",
+  "preferences.characters": "caractères",
+  "preferences.translateSummaryBack":
+    "Retraduire dans la langue d’origine les résumés des textes qui ne sont pas en anglais",
+  "preferences.renderMarkdown": "Mettre en forme les messages en Markdown",
+
+  "sidebar.new": "Nouvelle conversation",
+  "sidebar.untitled": "Nouvelle conversation",
+  "sidebar.search": "Rechercher des conversations",
+  "sidebar.noMatch": "Aucune conversation correspondante",
+  "sidebar.name": "Nom de la conversation",
+  "sidebar.messages": {
+    one: "{count} message",
+    other: "{count} messages",
+  },
+  "sidebar.rename": "Renommer {title}",
+  "sidebar.delete": "Supprimer {title}",
+  "sidebar.confirmDelete":
+    "Supprimer « {title} » ? Ses messages, traductions et résumés seront perdus.",
+
+  "export.label": "Exporter ou importer la conversation",
+  "export.button": "Exporter",
+  "export.as": "Exporter en {format}",
+  "export.importJson": "Importer du JSON…",
+  "export.import": "Import de la conversation",
+  "export.untitled": "Conversation",
+  "export.message": "Message {number}",
+  "export.detectedLanguage": "Langue détectée :",
+  "export.sourceLanguage": "Langue source :",
+  "export.importedFrom": "Importé depuis :",
+
+  "import.button": "Importer des fichiers",
+  "import.hint":
+    "Importer des fichiers texte, Markdown, HTML, PDF ou de sous-titres",
+  "import.pdfNoText":
+    "Ce PDF ne contient aucun texte à extraire. Les pages numérisées doivent d’abord passer par l’OCR.",
+  "import.pdfUnreadable":
+    "Impossible de lire le PDF. Il est peut-être endommagé ou protégé par un mot de passe.",
+  "import.unsupportedType":
+    "Seuls les fichiers texte, Markdown, HTML, PDF, SRT et VTT peuvent être importés.",
+  "import.invalidJson": "Le fichier n’est pas un JSON valide.",
+  "import.notConversation": "Le fichier n’est pas une conversation exportée.",
+  "import.unsupportedVersion":
+    "Version de fichier de conversation non prise en charge : {version}",
+  "import.noMessages": "Le fichier ne contient aucun message.",
+  "import.notObject": "Le message {number} n’est pas un objet.",
+  "import.invalidField":
+    "Le message {number} a un champ « {field} » non valide.",
+
+  "download.progress": "Téléchargement du {model}",
+  "download.detect": "modèle de détection de langue",
+  "download.translate": "modèle de traduction {source} → {target}",
+  "download.summarize": "modèle de résumé",
+  "download.rewrite": "modèle de réécriture",
+  "download.write": "modèle de rédaction",
+  "download.prompt": "modèle de questions",
+
+  "message.detectUnavailable":
+    "La détection de langue n’est pas disponible avec le backend d’IA actuel.",
+
+  "source.change": "Changer la langue source",
+  "source.detected": "Détectée : {language}",
+  "source.set": "Source : {language}",
+  "source.setManually": "(choisie manuellement)",
+  "source.detectedHeading": "Détectées",
+  "source.search": "Choisir une autre langue",
+  "source.searchLabel": "Rechercher des langues source",
+  "source.unknown": "Inconnue",
+
+  "bilingual.edit": "Modifier la phrase {number}",
+  "bilingual.editTranslation": "Modifier la phrase traduite {number}",
+  "bilingual.markReviewed": "Marquer la phrase {number} comme relue",
+  "bilingual.noMatch": "Aucune phrase correspondante",
+  "bilingual.edited": "modifiée",
+
+  "writing.reply": "Rédiger une réponse",
+  "writing.ask": "Poser une question",
+  "writing.question": "Question sur ce texte",
+  "writing.questionPlaceholder": "Que voulez-vous savoir sur ce texte ?",
+  "writing.askButton": "Demander",
+  "writing.running": "Rédaction...",
+  "rewrite.more-formal": "Plus formel",
+  "rewrite.more-casual": "Plus familier",
+  "rewrite.shorter": "Plus court",
+  "generated.reply": "Brouillon de réponse",
+  "generated.answer": "Q : {question}",
+  "generated.rewrite": "Réécriture : {style}",
+
+  "glossary.label": "Glossaire",
+  "glossary.sourceLanguage": "Langue source du glossaire",
+  "glossary.targetLanguage": "Langue cible du glossaire",
+  "glossary.term": "Terme",
+  "glossary.sourceTerm": "Terme source",
+  "glossary.translateAs": "Traduire par",
+  "glossary.requiredTranslation": "Traduction imposée",
+  "glossary.addTerm": "Ajouter le terme",
+  "glossary.empty": "Aucun terme dans le glossaire pour l’instant.",
+  "glossary.doNotTranslate": "Ne pas traduire",
+  "glossary.keptPlaceholder": "Nom de produit, marque...",
+  "glossary.keptTerm": "Terme à ne pas traduire",
+  "glossary.highlighted": "Terme du glossaire",
+
+  "summaryOptions.label": "Options du résumé",
+  "summaryOptions.type": "Type",
+  "summaryOptions.length": "Longueur",
+  "summaryOptions.format": "Format",
+  "summaryOptions.context": "Contexte commun (facultatif)",
+  "summaryOptions.contextPlaceholder":
+    "p. ex. Ce sont des avis sur un téléphone",
+  "summaryOptions.submit": "Résumer",
+  "summaryType.key-points": "Points clés",
+  "summaryType.tl;dr": "En bref",
+  "summaryType.teaser": "Accroche",
+  "summaryType.headline": "Titre",
+  "summaryLength.short": "Court",
+  "summaryLength.medium": "Moyen",
+  "summaryLength.long": "Long",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Texte brut",
+
+  "command.translate": "Traduire vers une ou plusieurs langues",
+  "command.summarize":
+    "Résumer, en choisissant éventuellement le type, la longueur et le format",
+  "command.lang": "Définir la langue source",
+  "command.detect": "Détecter à nouveau la langue source",
+  "command.summaryOption": "Option de résumé",
+  "command.translateNeedsLanguages":
+    "/translate a besoin de langues cibles, p. ex. es,fr.",
+  "command.langNeedsLanguage": "/lang a besoin d’une langue, p. ex. pt.",
+  "command.notLanguage":
+    "« {code} » n’est pas un code de langue, p. ex. « es » ou « pt-BR ».",
+  "command.unknownTarget":
+    "/translate ne propose pas « {code} » comme langue cible.",
+  "command.unknownSource": "/lang ne connaît pas la langue « {code} ».",
+  "command.unknown": "Commande inconnue {name}. Essayez {commands}.",
+
+  "subtitles.cueMismatch":
+    "La traduction compte {translated} sous-titres mais l’original en compte {original}.",
+};
+
+export default fr;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createI18n, detectLocale, localize, type LocalizedText } from ".";
+
+describe("detectLocale", () => {
+  it("picks the first browser language the interface speaks", () => {
+    expect(detectLocale(["de-DE", "pt-BR", "en"])).toBe("pt");
+    expect(detectLocale(["ja"])).toBe("en");
+  });
+});
+
+describe("createI18n", () => {
+  it("fills in params and picks plural forms by count", () => {
+    const { t } = createI18n("en");
+    expect(t("picker.translateBatch", { count: 1 })).toBe(
+      "Translate to 1 language"
+    );
+    expect(t("picker.translateBatch", { count: 3 })).toBe(
+      "Translate to 3 languages"
+    );
+
+    const ru = createI18n("ru").t;
+    expect(ru("picker.translateBatch", { count: 2 })).toBe(
+      "Перевести на 2 языка"
+    );
+    expect(ru("picker.translateBatch", { count: 5 })).toBe(
+      "Перевести на 5 языков"
+    );
+    expect(ru("picker.translateBatch", { count: 21 })).toBe(
+      "Перевести на 21 язык"
+    );
+  });
+
+  it("formats numbers for the locale and keeps placeholders without params", () => {
+    expect(
+      createI18n("tr").t("progress.part", {
+        label: "Çevriliyor",
+        part: 2,
+        total: 1200,
+      })
+    ).toBe("Çevriliyor · 1.200 parçadan 2. parça");
+    expect(createI18n("en").t("gate.openFlags")).toBe(
+      "Open Chrome and navigate to {url}"
+    );
+  });
+});
+
+describe("localize", () => {
+  it("translates nested messages and language names in the current locale", () => {
+    const title: LocalizedText = {
+      key: "operation.translation",
+      params: { language: { language: "es" } },
+    };
+    const failed: LocalizedText = {
+      key: "error.failedWith",
+      params: { title, message: "Quota exceeded" },
+    };
+    expect(localize(createI18n("en"), failed)).toBe(
+      "Translation to Spanish failed: Quota exceeded"
+    );
+    expect(localize(createI18n("fr"), title)).toBe("Traduction en espagnol");
+  });
+});
@@ -0,0 +1,121 @@
+import { displayLanguageName } from "../languages";
+import en from "./en";
+import es from "./es";
+import fr from "./fr";
+import pt from "./pt";
+import ru from "./ru";
+import tr from "./tr";
+
+// Interface languages, English first as the fallback
+export const locales = ["en", "pt", "es", "ru", "tr", "fr"] as const;
+
+export type Locale = (typeof locales)[number];
+
+export type MessageKey = keyof typeof en;
+
+// Text with {name} placeholders, or one text per plural form picked by the
+// `count` param
+export type CatalogMessage =
+  | string
+  | (Partial<Record<Intl.LDMLPluralRule, string>> & { other: string });
+
+export type Catalog = Record<MessageKey, CatalogMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+}
+
+// A message kept as its key and params so it's translated when shown, in
+// whatever the interface language is by then. Params can be messages too, or
+// language codes to show by name.
+export interface LocalizedText {
+  key: MessageKey;
+  params?: Record<string, string | number | LocalizedText | LanguageName>;
+}
+
+export interface LanguageName {
+  language: string;
+}
+
+const catalogs: Record<Locale, Catalog> = { en, pt, es, ru, tr, fr };
+
+const STORAGE_KEY = "locale";
+
+const isLocale = (value: unknown): value is Locale =>
+  locales.includes(value as Locale);
+
+// The first of the browser's languages the interface speaks
+export const detectLocale = (
+  languages: readonly string[] = navigator.languages ?? [navigator.language]
+): Locale => {
+  for (const language of languages) {
+    const base = language.split("-")[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return "en";
+};
+
+// A language picked in the header wins over the browser's
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked; use the browser's language
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+// Each locale's name in that language, for the switcher
+export const localeName = (locale: Locale) => {
+  const name = new Intl.DisplayNames([locale], { type: "language" }).of(locale);
+  return name ? name[0].toLocaleUpperCase(locale) + name.slice(1) : locale;
+};
+
+// Placeholders without a param are left in, so callers can fill them with
+// elements instead of text
+export const createI18n = (locale: Locale): I18n => {
+  const pluralRules = new Intl.PluralRules(locale);
+  const numberFormat = new Intl.NumberFormat(locale);
+
+  const t: Translate = (key, params = {}) => {
+    const message = catalogs[locale][key] ?? en[key];
+    const text =
+      typeof message === "string"
+        ? message
+        : message[pluralRules.select(Number(params.count ?? 0))] ??
+          message.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? numberFormat.format(value) : value;
+    });
+  };
+
+  return { locale, t };
+};
+
+// Text from outside the app, such as a browser's error message, is shown as
+// it came
+export const localize = (i18n: I18n, text: LocalizedText | string): string => {
+  if (typeof text === "string") return text;
+  const params: MessageParams = {};
+  Object.entries(text.params ?? {}).forEach(([name, value]) => {
+    params[name] =
+      typeof value !== "object"
+        ? value
+        : "language" in value
+        ? displayLanguageName(value.language, i18n.locale)
+        : localize(i18n, value);
+  });
+  return i18n.t(text.key, params);
+};
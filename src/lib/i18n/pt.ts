@@ -0,0 +1,338 @@
+import type { Catalog } from ".";
+
+const pt: Catalog = {
+  "app.title": "Processador de texto com IA",
+  "app.toggleSidebar": "Mostrar ou ocultar conversas",
+  "app.connected": "APIs de IA conectadas",
+  "app.limited": "Recursos de IA limitados",
+  "app.degraded": "{missing} Todo o resto continua funcionando.",
+  "app.dropFiles": "Solte arquivos para adicioná-los como mensagens",
+  "app.dropFormats": "Texto, Markdown, HTML, PDF, SRT e VTT",
+  "app.emptyTitle": "Nenhuma mensagem ainda",
+  "app.emptyHint": "Digite algo para começar a processar com IA",
+  "app.detectFailed":
+    "Não foi possível detectar as APIs de {provider}: {message}",
+  "app.runCommand": "Executar o comando",
+  "app.sendMessage": "Enviar a mensagem",
+  "locale.label": "Idioma da interface",
+
+  "common.dismiss": "Dispensar",
+  "common.retry": "Tentar novamente",
+  "common.clear": "Limpar",
+  "common.clearAll": "Limpar tudo",
+  "common.save": "Salvar",
+  "common.cancel": "Cancelar",
+  "common.add": "Adicionar",
+  "common.remove": "Remover {name}",
+
+  "capabilities.missingChrome": {
+    one: "Esta API de IA do Chrome não está disponível: {apis}. Verifique se você está usando o Chrome com os recursos experimentais de IA ativados.",
+    other:
+      "Algumas APIs de IA do Chrome não estão disponíveis: {apis}. Verifique se você está usando o Chrome com os recursos experimentais de IA ativados.",
+  },
+  "capabilities.missingServer": {
+    one: "Este recurso não está disponível no servidor local: {apis}. Verifique se o servidor está em execução e oferece suporte a ele.",
+    other:
+      "Alguns recursos não estão disponíveis no servidor local: {apis}. Verifique se o servidor está em execução e oferece suporte a eles.",
+  },
+
+  "gate.checking": "Verificando a disponibilidade das APIs de IA...",
+  "gate.chromeTitle": "APIs de IA do Chrome indisponíveis",
+  "gate.serverTitle": "Servidor local indisponível",
+  "gate.chromeIntro":
+    "Este aplicativo precisa das APIs experimentais de IA do Chrome para funcionar corretamente, ou de um servidor local escolhido no menu de backend de IA.",
+  "gate.serverIntro":
+    "Verifique se o servidor em {url} está em execução e acessível a partir desta página.",
+  "gate.setupTitle": "Para ativar os recursos necessários:",
+  "gate.openFlags": "Abra o Chrome e acesse {url}",
+  "gate.enableFlags": "Procure e ative as seguintes flags:",
+  "gate.optionalFlags":
+    "Opcionalmente, para reescrever, redigir respostas e fazer perguntas:",
+  "gate.restart": "Reinicie o navegador",
+  "gate.recheckHint": "Clique em Verificar novamente ou recarregue esta página",
+  "gate.errorDetails": "Detalhes do erro: {details}",
+
+  "recheck.label": "Verificar novamente a disponibilidade da IA",
+  "recheck.button": "Verificar novamente",
+  "recheck.checking": "Verificando...",
+
+  "stop.label": "Parar a geração",
+  "stop.button": "Parar",
+
+  "error.failed": "{title}: falhou",
+  "error.failedWith": "{title}: falhou. {message}",
+  "error.stopped": "A operação foi interrompida.",
+  "error.unavailable.detect":
+    "A detecção de idioma não está disponível neste dispositivo.",
+  "error.unavailable.translate":
+    "A tradução não está disponível neste dispositivo.",
+  "error.unavailable.summarize":
+    "O resumo não está disponível neste dispositivo. Tente novamente mais tarde ou use outro dispositivo.",
+  "error.unavailable.rewrite":
+    "A reescrita não está disponível neste dispositivo.",
+  "error.unavailable.write": "A escrita não está disponível neste dispositivo.",
+  "error.unavailable.prompt":
+    "A Prompt API não está disponível neste dispositivo.",
+  "error.unsupportedPair":
+    "A tradução de {source} para {target} não é suportada.",
+  "error.summaryTooLong":
+    "O texto continua longo demais para resumir depois de várias rodadas.",
+  "error.summaryNotShorter":
+    "O texto é longo demais para resumir: resumir as partes não o deixou mais curto.",
+  "error.serverResponse":
+    "O servidor local respondeu com {status} {statusText}",
+  "error.emptyCompletion": "O servidor local retornou uma resposta vazia.",
+  "error.serverUnsupported.summarize":
+    "Este servidor local não suporta resumos.",
+  "error.serverUnsupported.rewrite":
+    "Este servidor local não suporta reescrita.",
+  "error.serverUnsupported.write": "Este servidor local não suporta escrita.",
+  "error.serverUnsupported.prompt":
+    "Este servidor local não suporta perguntas.",
+  "errorLog.show": "Mostrar registro de erros",
+  "errorLog.title": "Registro de erros",
+  "errorKind.unavailable": "Indisponível",
+  "errorKind.unsupported-pair": "Idiomas não suportados",
+  "errorKind.quota-exceeded": "Texto longo demais",
+  "errorKind.aborted": "Interrompido",
+  "errorKind.download-failed": "Falha no download",
+  "errorKind.unknown": "Erro",
+
+  "progress.part": "{label} · parte {part} de {total}",
+  "progress.waiting": "Aguardando o modelo terminar de baixar...",
+  "progress.summarizing": "Resumindo",
+  "progress.translating": "Traduzindo",
+  "progress.translatingCues": "Traduzindo legendas",
+  "progress.translatingTo": "Traduzindo para {language}",
+
+  "operation.detection": "Detecção de idioma",
+  "operation.summary": "Resumo ({type} · {length})",
+  "operation.translation": "Tradução para {language}",
+  "operation.import": "Importação de {file}",
+  "operation.noSourceLanguage":
+    "O idioma de origem desta mensagem não foi detectado",
+  "operation.summaryNeedsTranslator":
+    "Resumir texto em {language} requer a API Translator para traduzi-lo primeiro para o inglês.",
+  "operation.noTextInFile": "Nenhum texto encontrado no arquivo.",
+  "operation.noMessageForCommand":
+    "Ainda não há mensagem para o comando. Adicione um texto depois dele.",
+
+  "composer.placeholder": "Digite sua mensagem aqui, ou / para comandos...",
+  "composer.input": "Campo de mensagem",
+  "composer.send": "Enviar mensagem",
+  "composer.suggestions": "Sugestões de comandos",
+  "composer.hint":
+    "Pressione {enter} para enviar, {newLine} para nova linha, digite {slash} para comandos ou solte arquivos para importá-los",
+  "composer.poweredBy": "Com tecnologia de {provider}",
+
+  "picker.label": "Selecionar idioma da tradução",
+  "picker.button": "Traduzir para...",
+  "picker.search": "Pesquisar idiomas",
+  "picker.batchHint":
+    "Marque vários idiomas para traduzir para todos de uma vez",
+  "picker.checking": "Verificando os idiomas disponíveis...",
+  "picker.loadFailed": "Não foi possível carregar os idiomas: {message}",
+  "picker.noMatch": "Nenhum idioma encontrado",
+  "picker.addToBatch": "Adicionar {language} à tradução em lote",
+  "picker.ready": "Pronto",
+  "picker.needsDownload": "Requer download",
+  "picker.translateBatch": {
+    one: "Traduzir para {count} idioma",
+    other: "Traduzir para {count} idiomas",
+  },
+
+  "memory.exact": "Da memória",
+  "memory.fuzzy": "{percent}% de correspondência com um anterior",
+  "memory.assembled": "Montada a partir de frases lembradas",
+  "memory.label": "Memória de tradução",
+  "memory.title": "Memória de tradução ({count})",
+  "memory.empty":
+    "Traduções e resumos ficam guardados aqui e são reaproveitados quando o mesmo texto aparece de novo.",
+  "memory.search": "Pesquisar na memória",
+  "memory.summaryIn": "Resumo · {language}",
+  "memory.delete": "Excluir item da memória",
+  "memory.loading": "Carregamento da memória de tradução",
+  "memory.deleting": "Exclusão de um item da memória",
+  "memory.clearing": "Limpeza da memória de tradução",
+
+  "summary.label": "Resumir texto",
+  "summary.button": "Resumir com IA",
+  "summary.unavailable":
+    "O resumo não está disponível com o backend de IA atual.",
+  "summary.title": "Resumo de IA",
+  "summary.inLanguage": "em {language}",
+  "summary.again": "Resumir novamente",
+  "summary.formatted": "Formatado",
+  "summary.raw": "Original",
+  "summary.context": "Contexto: {context}",
+  "summary.running": "Resumindo...",
+
+  "translation.pending": {
+    one: "Traduzindo...",
+    other: "Traduzindo para {count} idiomas...",
+  },
+  "translation.unavailable":
+    "A tradução não está disponível com o backend de IA atual.",
+  "translation.needsSource":
+    "A tradução precisa de um idioma de origem. Escolha um no selo de idioma acima.",
+  "translation.lowConfidence":
+    "A detecção tem apenas {confidence} de certeza de que isto é {language}. Confira o idioma de origem antes de traduzir.",
+  "translation.title": "Tradução para {language}",
+  "translation.reviewed": "{reviewed} de {total} revisadas",
+  "translation.again": "Traduzir novamente",
+  "translation.sideBySide": "Lado a lado",
+  "translation.download": "Baixar .{format}",
+  "translation.queued": "Aguardando outras traduções...",
+  "translation.running": "Traduzindo...",
+  "translation.subtitleDownload": "Download de legendas",
+
+  "provider.chrome": "IA integrada do Chrome",
+  "provider.http": "Servidor local",
+  "provider.settings": "Configurações do backend de IA",
+  "provider.backend": "Backend de IA",
+  "provider.serverType": "Tipo de servidor",
+  "provider.openai": "Compatível com OpenAI",
+  "provider.endpoint": "URL do endpoint",
+  "provider.model": "Modelo",
+  "provider.apiKey": "Chave de API (opcional)",
+  "provider.apply": "Aplicar",
+
+  "preferences.label": "Preferências",
+  "preferences.summaryMinLength": "Oferecer resumos para mensagens com mais de",
+  "preferences.characters": "caracteres",
+  "preferences.translateSummaryBack":
+    "Traduzir resumos de textos que não estão em inglês de volta para o idioma original",
+  "preferences.renderMarkdown": "Formatar mensagens como Markdown",
+
+  "sidebar.new": "Nova conversa",
+  "sidebar.untitled": "Nova conversa",
+  "sidebar.search": "Pesquisar conversas",
+  "sidebar.noMatch": "Nenhuma conversa encontrada",
+  "sidebar.name": "Nome da conversa",
+  "sidebar.messages": {
+    one: "{count} mensagem",
+    other: "{count} mensagens",
+  },
+  "sidebar.rename": "Renomear {title}",
+  "sidebar.delete": "Excluir {title}",
+  "sidebar.confirmDelete":
+    'Excluir "{title}"? As mensagens, traduções e resumos dela serão perdidos.',
+
+  "export.label": "Exportar ou importar conversa",
+  "export.button": "Exportar",
+  "export.as": "Exportar como {format}",
+  "export.importJson": "Importar JSON…",
+  "export.import": "Importação da conversa",
+  "export.untitled": "Conversa",
+  "export.message": "Mensagem {number}",
+  "export.detectedLanguage": "Idioma detectado:",
+  "export.sourceLanguage": "Idioma de origem:",
+  "export.importedFrom": "Importado de:",
+
+  "import.button": "Importar arquivos",
+  "import.hint": "Importar arquivos de texto, Markdown, HTML, PDF ou legendas",
+  "import.pdfNoText":
+    "Este PDF não tem texto para extrair. Páginas digitalizadas precisam de OCR antes.",
+  "import.pdfUnreadable":
+    "Não foi possível ler o PDF. Ele pode estar danificado ou protegido por senha.",
+  "import.unsupportedType":
+    "Só é possível importar arquivos de texto, Markdown, HTML, PDF, SRT e VTT.",
+  "import.invalidJson": "O arquivo não é um JSON válido.",
+  "import.notConversation": "O arquivo não é uma conversa exportada.",
+  "import.unsupportedVersion":
+    "Versão de arquivo de conversa não suportada: {version}",
+  "import.noMessages": "O arquivo não contém nenhuma mensagem.",
+  "import.notObject": "A mensagem {number} não é um objeto.",
+  "import.invalidField": 'A mensagem {number} tem um campo "{field}" inválido.',
+
+  "download.progress": "Baixando {model}",
+  "download.detect": "o modelo de detecção de idioma",
+  "download.translate": "o modelo de tradução {source} → {target}",
+  "download.summarize": "o modelo de resumo",
+  "download.rewrite": "o modelo de reescrita",
+  "download.write": "o modelo de escrita",
+  "download.prompt": "o modelo de perguntas",
+
+  "message.detectUnavailable":
+    "A detecção de idioma não está disponível com o backend de IA atual.",
+
+  "source.change": "Alterar idioma de origem",
+  "source.detected": "Detectado: {language}",
+  "source.set": "Origem: {language}",
+  "source.setManually": "(definido manualmente)",
+  "source.detectedHeading": "Detectados",
+  "source.search": "Escolha outro idioma",
+  "source.searchLabel": "Pesquisar idiomas de origem",
+  "source.unknown": "Desconhecido",
+
+  "bilingual.edit": "Editar frase {number}",
+  "bilingual.editTranslation": "Editar frase traduzida {number}",
+  "bilingual.markReviewed": "Marcar frase {number} como revisada",
+  "bilingual.noMatch": "Nenhuma frase correspondente",
+  "bilingual.edited": "editada",
+
+  "writing.reply": "Rascunhar uma resposta",
+  "writing.ask": "Fazer uma pergunta",
+  "writing.question": "Pergunta sobre este texto",
+  "writing.questionPlaceholder": "O que você quer saber sobre este texto?",
+  "writing.askButton": "Perguntar",
+  "writing.running": "Escrevendo...",
+  "rewrite.more-formal": "Mais formal",
+  "rewrite.more-casual": "Mais informal",
+  "rewrite.shorter": "Mais curto",
+  "generated.reply": "Rascunho de resposta",
+  "generated.answer": "P: {question}",
+  "generated.rewrite": "Reescrita: {style}",
+
+  "glossary.label": "Glossário",
+  "glossary.sourceLanguage": "Idioma de origem do glossário",
+  "glossary.targetLanguage": "Idioma de destino do glossário",
+  "glossary.term": "Termo",
+  "glossary.sourceTerm": "Termo de origem",
+  "glossary.translateAs": "Traduzir como",
+  "glossary.requiredTranslation": "Tradução obrigatória",
+  "glossary.addTerm": "Adicionar termo",
+  "glossary.empty": "Ainda não há termos no glossário.",
+  "glossary.doNotTranslate": "Não traduzir",
+  "glossary.keptPlaceholder": "Nome de produto, marca...",
+  "glossary.keptTerm": "Termo a manter sem tradução",
+  "glossary.highlighted": "Termo do glossário",
+
+  "summaryOptions.label": "Opções de resumo",
+  "summaryOptions.type": "Tipo",
+  "summaryOptions.length": "Tamanho",
+  "summaryOptions.format": "Formato",
+  "summaryOptions.context": "Contexto compartilhado (opcional)",
+  "summaryOptions.contextPlaceholder": "ex.: São avaliações de um celular",
+  "summaryOptions.submit": "Resumir",
+  "summaryType.key-points": "Pontos-chave",
+  "summaryType.tl;dr": "Resumo rápido",
+  "summaryType.teaser": "Chamada",
+  "summaryType.headline": "Manchete",
+  "summaryLength.short": "Curto",
+  "summaryLength.medium": "Médio",
+  "summaryLength.long": "Longo",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Texto simples",
+
+  "command.translate": "Traduzir para um ou mais idiomas",
+  "command.summarize":
+    "Resumir, escolhendo opcionalmente tipo, tamanho e formato",
+  "command.lang": "Definir o idioma de origem",
+  "command.detect": "Detectar o idioma de origem novamente",
+  "command.summaryOption": "Opção de resumo",
+  "command.translateNeedsLanguages":
+    "/translate precisa de idiomas de destino, ex.: es,fr.",
+  "command.langNeedsLanguage": "/lang precisa de um idioma, ex.: pt.",
+  "command.notLanguage":
+    '"{code}" não é um código de idioma, ex.: "es" ou "pt-BR".',
+  "command.unknownTarget":
+    '/translate não oferece "{code}" como idioma de destino.',
+  "command.unknownSource": '/lang não conhece o idioma "{code}".',
+  "command.unknown": "Comando desconhecido {name}. Tente {commands}.",
+
+  "subtitles.cueMismatch":
+    "A tradução tem {translated} legendas, mas o original tem {original}.",
+};
+
+export default pt;
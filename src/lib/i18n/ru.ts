@@ -0,0 +1,337 @@
+import type { Catalog } from ".";
+
+const ru: Catalog = {
+  "app.title": "Обработка текста с ИИ",
+  "app.toggleSidebar": "Показать или скрыть список бесед",
+  "app.connected": "API ИИ подключены",
+  "app.limited": "Функции ИИ ограничены",
+  "app.degraded": "{missing} Всё остальное продолжает работать.",
+  "app.dropFiles": "Перетащите файлы, чтобы добавить их как сообщения",
+  "app.dropFormats": "Текст, Markdown, HTML, PDF, SRT и VTT",
+  "app.emptyTitle": "Сообщений пока нет",
+  "app.emptyHint": "Введите текст, чтобы начать обработку с помощью ИИ",
+  "app.detectFailed": "Не удалось определить API {provider}: {message}",
+  "app.runCommand": "Выполнение команды",
+  "app.sendMessage": "Отправка сообщения",
+  "locale.label": "Язык интерфейса",
+
+  "common.dismiss": "Закрыть",
+  "common.retry": "Повторить",
+  "common.clear": "Сбросить",
+  "common.clearAll": "Очистить всё",
+  "common.save": "Сохранить",
+  "common.cancel": "Отмена",
+  "common.add": "Добавить",
+  "common.remove": "Удалить {name}",
+
+  "capabilities.missingChrome": {
+    one: "Этот API ИИ в Chrome недоступен: {apis}. Убедитесь, что вы используете Chrome с включёнными экспериментальными функциями ИИ.",
+    other:
+      "Некоторые API ИИ в Chrome недоступны: {apis}. Убедитесь, что вы используете Chrome с включёнными экспериментальными функциями ИИ.",
+  },
+  "capabilities.missingServer": {
+    one: "Эта функция недоступна на локальном сервере: {apis}. Убедитесь, что сервер запущен и поддерживает её.",
+    other:
+      "Некоторые функции недоступны на локальном сервере: {apis}. Убедитесь, что сервер запущен и поддерживает их.",
+  },
+
+  "gate.checking": "Проверка доступности API ИИ...",
+  "gate.chromeTitle": "API ИИ в Chrome недоступны",
+  "gate.serverTitle": "Локальный сервер недоступен",
+  "gate.chromeIntro":
+    "Для работы приложения нужны экспериментальные API ИИ в Chrome или локальный сервер, выбранный в меню бэкенда ИИ.",
+  "gate.serverIntro":
+    "Убедитесь, что сервер по адресу {url} запущен и доступен с этой страницы.",
+  "gate.setupTitle": "Чтобы включить нужные функции:",
+  "gate.openFlags": "Откройте Chrome и перейдите на {url}",
+  "gate.enableFlags": "Найдите и включите следующие флаги:",
+  "gate.optionalFlags":
+    "По желанию — для переписывания, черновиков ответов и вопросов:",
+  "gate.restart": "Перезапустите браузер",
+  "gate.recheckHint":
+    "Нажмите «Проверить снова» ниже или обновите эту страницу",
+  "gate.errorDetails": "Подробности ошибки: {details}",
+
+  "recheck.label": "Снова проверить доступность ИИ",
+  "recheck.button": "Проверить снова",
+  "recheck.checking": "Проверка...",
+
+  "stop.label": "Остановить генерацию",
+  "stop.button": "Стоп",
+
+  "error.failed": "{title}: ошибка",
+  "error.failedWith": "{title}: ошибка. {message}",
+  "error.stopped": "Операция остановлена.",
+  "error.unavailable.detect":
+    "Определение языка недоступно на этом устройстве.",
+  "error.unavailable.translate": "Перевод недоступен на этом устройстве.",
+  "error.unavailable.summarize":
+    "Создание сводки недоступно на этом устройстве. Попробуйте позже или используйте другое устройство.",
+  "error.unavailable.rewrite": "Переписывание недоступно на этом устройстве.",
+  "error.unavailable.write": "Написание текста недоступно на этом устройстве.",
+  "error.unavailable.prompt": "Prompt API недоступен на этом устройстве.",
+  "error.unsupportedPair":
+    "Перевод с языка «{source}» на «{target}» не поддерживается.",
+  "error.summaryTooLong":
+    "Текст всё ещё слишком длинный для сводки после нескольких проходов.",
+  "error.summaryNotShorter":
+    "Текст слишком длинный для сводки: сводки его частей не сделали его короче.",
+  "error.serverResponse": "Локальный сервер ответил: {status} {statusText}",
+  "error.emptyCompletion": "Локальный сервер вернул пустой ответ.",
+  "error.serverUnsupported.summarize":
+    "Этот локальный сервер не поддерживает сводки.",
+  "error.serverUnsupported.rewrite":
+    "Этот локальный сервер не поддерживает переписывание.",
+  "error.serverUnsupported.write":
+    "Этот локальный сервер не поддерживает написание текста.",
+  "error.serverUnsupported.prompt":
+    "Этот локальный сервер не поддерживает вопросы.",
+  "errorLog.show": "Показать журнал ошибок",
+  "errorLog.title": "Журнал ошибок",
+  "errorKind.unavailable": "Недоступно",
+  "errorKind.unsupported-pair": "Языки не поддерживаются",
+  "errorKind.quota-exceeded": "Слишком длинный текст",
+  "errorKind.aborted": "Остановлено",
+  "errorKind.download-failed": "Ошибка загрузки",
+  "errorKind.unknown": "Ошибка",
+
+  "progress.part": "{label} · часть {part} из {total}",
+  "progress.waiting": "Ожидание окончания загрузки модели...",
+  "progress.summarizing": "Создание сводки",
+  "progress.translating": "Перевод",
+  "progress.translatingCues": "Перевод субтитров",
+  "progress.translatingTo": "Перевод: {language}",
+
+  "operation.detection": "Определение языка",
+  "operation.summary": "Сводка ({type} · {length})",
+  "operation.translation": "Перевод: {language}",
+  "operation.import": "Импорт {file}",
+  "operation.noSourceLanguage": "Исходный язык этого сообщения не определён",
+  "operation.summaryNeedsTranslator":
+    "Чтобы сделать сводку текста на языке «{language}», нужен Translator API: сначала текст переводится на английский.",
+  "operation.noTextInFile": "В файле не найден текст.",
+  "operation.noMessageForCommand":
+    "Для команды пока нет сообщения. Добавьте текст после неё.",
+
+  "composer.placeholder": "Введите сообщение или / для команд...",
+  "composer.input": "Поле сообщения",
+  "composer.send": "Отправить сообщение",
+  "composer.suggestions": "Подсказки команд",
+  "composer.hint":
+    "Нажмите {enter}, чтобы отправить, {newLine} — для новой строки, введите {slash} для команд или перетащите файлы для импорта",
+  "composer.poweredBy": "Работает на {provider}",
+
+  "picker.label": "Выбрать язык перевода",
+  "picker.button": "Перевести на...",
+  "picker.search": "Поиск языков",
+  "picker.batchHint": "Отметьте несколько языков, чтобы перевести на все сразу",
+  "picker.checking": "Проверка доступных языков...",
+  "picker.loadFailed": "Не удалось загрузить языки: {message}",
+  "picker.noMatch": "Подходящих языков нет",
+  "picker.addToBatch": "Добавить язык «{language}» в пакетный перевод",
+  "picker.ready": "Готов",
+  "picker.needsDownload": "Нужна загрузка",
+  "picker.translateBatch": {
+    one: "Перевести на {count} язык",
+    few: "Перевести на {count} языка",
+    many: "Перевести на {count} языков",
+    other: "Перевести на {count} языка",
+  },
+
+  "memory.exact": "Из памяти",
+  "memory.fuzzy": "Совпадение {percent}% с прежним текстом",
+  "memory.assembled": "Собрано из запомненных предложений",
+  "memory.label": "Память переводов",
+  "memory.title": "Память переводов ({count})",
+  "memory.empty":
+    "Здесь запоминаются переводы и сводки, чтобы использовать их снова, когда встретится тот же текст.",
+  "memory.search": "Поиск в памяти",
+  "memory.summaryIn": "Сводка · {language}",
+  "memory.delete": "Удалить запись из памяти",
+  "memory.loading": "Загрузка памяти переводов",
+  "memory.deleting": "Удаление записи из памяти",
+  "memory.clearing": "Очистка памяти переводов",
+
+  "summary.label": "Сделать сводку текста",
+  "summary.button": "Сводка с ИИ",
+  "summary.unavailable": "Сводки недоступны с текущим бэкендом ИИ.",
+  "summary.title": "Сводка ИИ",
+  "summary.inLanguage": "язык: {language}",
+  "summary.again": "Сделать сводку заново",
+  "summary.formatted": "С форматированием",
+  "summary.raw": "Исходный текст",
+  "summary.context": "Контекст: {context}",
+  "summary.running": "Создание сводки...",
+
+  "translation.pending": {
+    one: "Перевод на {count} язык...",
+    few: "Перевод на {count} языка...",
+    many: "Перевод на {count} языков...",
+    other: "Перевод на {count} языка...",
+  },
+  "translation.unavailable": "Перевод недоступен с текущим бэкендом ИИ.",
+  "translation.needsSource":
+    "Для перевода нужен исходный язык. Выберите его в метке языка выше.",
+  "translation.lowConfidence":
+    "Определение уверено лишь на {confidence}, что это {language}. Проверьте исходный язык перед переводом.",
+  "translation.title": "Перевод: {language}",
+  "translation.reviewed": "проверено {reviewed} из {total}",
+  "translation.again": "Перевести заново",
+  "translation.sideBySide": "Рядом с оригиналом",
+  "translation.download": "Скачать .{format}",
+  "translation.queued": "Ожидание других переводов...",
+  "translation.running": "Перевод...",
+  "translation.subtitleDownload": "Скачивание субтитров",
+
+  "provider.chrome": "Встроенный ИИ Chrome",
+  "provider.http": "Локальный сервер",
+  "provider.settings": "Настройки бэкенда ИИ",
+  "provider.backend": "Бэкенд ИИ",
+  "provider.serverType": "Тип сервера",
+  "provider.openai": "Совместимый с OpenAI",
+  "provider.endpoint": "URL эндпоинта",
+  "provider.model": "Модель",
+  "provider.apiKey": "Ключ API (необязательно)",
+  "provider.apply": "Применить",
+
+  "preferences.label": "Настройки",
+  "preferences.summaryMinLength": "Предлагать сводку для сообщений длиннее",
+  "preferences.characters": "символов",
+  "preferences.translateSummaryBack":
+    "Переводить сводки неанглийских текстов обратно на исходный язык",
+  "preferences.renderMarkdown": "Форматировать сообщения как Markdown",
+
+  "sidebar.new": "Новый разговор",
+  "sidebar.untitled": "Новый разговор",
+  "sidebar.search": "Поиск разговоров",
+  "sidebar.noMatch": "Подходящих разговоров нет",
+  "sidebar.name": "Название разговора",
+  "sidebar.messages": {
+    one: "{count} сообщение",
+    few: "{count} сообщения",
+    many: "{count} сообщений",
+    other: "{count} сообщения",
+  },
+  "sidebar.rename": "Переименовать «{title}»",
+  "sidebar.delete": "Удалить «{title}»",
+  "sidebar.confirmDelete":
+    "Удалить «{title}»? Его сообщения, переводы и сводки будут потеряны.",
+
+  "export.label": "Экспорт или импорт разговора",
+  "export.button": "Экспорт",
+  "export.as": "Экспортировать в {format}",
+  "export.importJson": "Импорт JSON…",
+  "export.import": "Импорт разговора",
+  "export.untitled": "Разговор",
+  "export.message": "Сообщение {number}",
+  "export.detectedLanguage": "Определённый язык:",
+  "export.sourceLanguage": "Исходный язык:",
+  "export.importedFrom": "Импортировано из:",
+
+  "import.button": "Импортировать файлы",
+  "import.hint":
+    "Импортировать текстовые файлы, Markdown, HTML, PDF или субтитры",
+  "import.pdfNoText":
+    "В этом PDF нет текста для извлечения. Сканированные страницы сначала нужно распознать (OCR).",
+  "import.pdfUnreadable":
+    "Не удалось прочитать PDF. Возможно, он повреждён или защищён паролем.",
+  "import.unsupportedType":
+    "Импортировать можно только текстовые файлы, Markdown, HTML, PDF, SRT и VTT.",
+  "import.invalidJson": "Файл не является корректным JSON.",
+  "import.notConversation": "Файл не является экспортированным разговором.",
+  "import.unsupportedVersion":
+    "Неподдерживаемая версия файла разговора: {version}",
+  "import.noMessages": "В файле нет сообщений.",
+  "import.notObject": "Сообщение {number} не является объектом.",
+  "import.invalidField": "В сообщении {number} некорректное поле «{field}».",
+
+  "download.progress": "Загрузка: {model}",
+  "download.detect": "модель определения языка",
+  "download.translate": "модель перевода {source} → {target}",
+  "download.summarize": "модель для сводок",
+  "download.rewrite": "модель переписывания",
+  "download.write": "модель написания текста",
+  "download.prompt": "модель ответов на вопросы",
+
+  "message.detectUnavailable":
+    "Определение языка недоступно в текущем бэкенде ИИ.",
+
+  "source.change": "Изменить исходный язык",
+  "source.detected": "Определён: {language}",
+  "source.set": "Исходный: {language}",
+  "source.setManually": "(задан вручную)",
+  "source.detectedHeading": "Определённые",
+  "source.search": "Выберите другой язык",
+  "source.searchLabel": "Поиск исходных языков",
+  "source.unknown": "Неизвестно",
+
+  "bilingual.edit": "Изменить предложение {number}",
+  "bilingual.editTranslation": "Изменить переведённое предложение {number}",
+  "bilingual.markReviewed": "Отметить предложение {number} как проверенное",
+  "bilingual.noMatch": "Нет соответствующего предложения",
+  "bilingual.edited": "изменено",
+
+  "writing.reply": "Набросать ответ",
+  "writing.ask": "Задать вопрос",
+  "writing.question": "Вопрос об этом тексте",
+  "writing.questionPlaceholder": "Что вы хотите узнать об этом тексте?",
+  "writing.askButton": "Спросить",
+  "writing.running": "Пишу...",
+  "rewrite.more-formal": "Официальнее",
+  "rewrite.more-casual": "Проще",
+  "rewrite.shorter": "Короче",
+  "generated.reply": "Черновик ответа",
+  "generated.answer": "В: {question}",
+  "generated.rewrite": "Переписано: {style}",
+
+  "glossary.label": "Глоссарий",
+  "glossary.sourceLanguage": "Исходный язык глоссария",
+  "glossary.targetLanguage": "Целевой язык глоссария",
+  "glossary.term": "Термин",
+  "glossary.sourceTerm": "Исходный термин",
+  "glossary.translateAs": "Переводить как",
+  "glossary.requiredTranslation": "Обязательный перевод",
+  "glossary.addTerm": "Добавить термин",
+  "glossary.empty": "В глоссарии пока нет терминов.",
+  "glossary.doNotTranslate": "Не переводить",
+  "glossary.keptPlaceholder": "Название продукта, бренд...",
+  "glossary.keptTerm": "Термин, который не переводится",
+  "glossary.highlighted": "Термин из глоссария",
+
+  "summaryOptions.label": "Параметры сводки",
+  "summaryOptions.type": "Тип",
+  "summaryOptions.length": "Длина",
+  "summaryOptions.format": "Формат",
+  "summaryOptions.context": "Общий контекст (необязательно)",
+  "summaryOptions.contextPlaceholder": "например: это отзывы о телефоне",
+  "summaryOptions.submit": "Составить сводку",
+  "summaryType.key-points": "Ключевые пункты",
+  "summaryType.tl;dr": "Кратко",
+  "summaryType.teaser": "Анонс",
+  "summaryType.headline": "Заголовок",
+  "summaryLength.short": "Короткий",
+  "summaryLength.medium": "Средний",
+  "summaryLength.long": "Длинный",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Обычный текст",
+
+  "command.translate": "Перевести на один или несколько языков",
+  "command.summarize":
+    "Составить сводку, при желании указав тип, длину и формат",
+  "command.lang": "Задать исходный язык",
+  "command.detect": "Заново определить исходный язык",
+  "command.summaryOption": "Параметр сводки",
+  "command.translateNeedsLanguages":
+    "Для /translate нужны целевые языки, например es,fr.",
+  "command.langNeedsLanguage": "Для /lang нужен язык, например pt.",
+  "command.notLanguage": "«{code}» — не код языка; пример: «es» или «pt-BR».",
+  "command.unknownTarget":
+    "/translate не предлагает «{code}» как язык перевода.",
+  "command.unknownSource": "/lang не знает язык «{code}».",
+  "command.unknown": "Неизвестная команда {name}. Попробуйте {commands}.",
+
+  "subtitles.cueMismatch":
+    "В переводе {translated} субтитров, а в оригинале {original}.",
+};
+
+export default ru;
@@ -0,0 +1,332 @@
+import type { Catalog } from ".";
+
+const tr: Catalog = {
+  "app.title": "Yapay Zekâ Metin İşleyici",
+  "app.toggleSidebar": "Sohbet listesini göster veya gizle",
+  "app.connected": "Yapay zekâ API'leri bağlı",
+  "app.limited": "Sınırlı yapay zekâ özellikleri",
+  "app.degraded": "{missing} Diğer her şey çalışmaya devam ediyor.",
+  "app.dropFiles": "Mesaj olarak eklemek için dosyaları buraya bırakın",
+  "app.dropFormats": "Metin, Markdown, HTML, PDF, SRT ve VTT",
+  "app.emptyTitle": "Henüz mesaj yok",
+  "app.emptyHint": "Yapay zekâyla işlemeye başlamak için bir şey yazın",
+  "app.detectFailed": "{provider} API'leri algılanamadı: {message}",
+  "app.runCommand": "Komutu çalıştırma",
+  "app.sendMessage": "Mesajı gönderme",
+  "locale.label": "Arayüz dili",
+
+  "common.dismiss": "Kapat",
+  "common.retry": "Yeniden dene",
+  "common.clear": "Temizle",
+  "common.clearAll": "Tümünü temizle",
+  "common.save": "Kaydet",
+  "common.cancel": "İptal",
+  "common.add": "Ekle",
+  "common.remove": "{name} öğesini kaldır",
+
+  "capabilities.missingChrome": {
+    one: "Bu Chrome yapay zekâ API'si kullanılamıyor: {apis}. Deneysel yapay zekâ özellikleri etkin bir Chrome kullandığınızdan emin olun.",
+    other:
+      "Bazı Chrome yapay zekâ API'leri kullanılamıyor: {apis}. Deneysel yapay zekâ özellikleri etkin bir Chrome kullandığınızdan emin olun.",
+  },
+  "capabilities.missingServer": {
+    one: "Bu özellik yerel sunucuda kullanılamıyor: {apis}. Sunucunun çalıştığından ve bu özelliği desteklediğinden emin olun.",
+    other:
+      "Bazı özellikler yerel sunucuda kullanılamıyor: {apis}. Sunucunun çalıştığından ve bu özellikleri desteklediğinden emin olun.",
+  },
+
+  "gate.checking": "Yapay zekâ API'lerinin kullanılabilirliği denetleniyor...",
+  "gate.chromeTitle": "Chrome Yapay Zekâ API'leri Kullanılamıyor",
+  "gate.serverTitle": "Yerel Sunucu Kullanılamıyor",
+  "gate.chromeIntro":
+    "Bu uygulamanın düzgün çalışması için Chrome'un deneysel yapay zekâ API'leri ya da yapay zekâ arka uç menüsünden seçilen bir yerel sunucu gerekir.",
+  "gate.serverIntro":
+    "{url} adresindeki sunucunun çalıştığından ve bu sayfadan erişilebildiğinden emin olun.",
+  "gate.setupTitle": "Gerekli özellikleri etkinleştirmek için:",
+  "gate.openFlags": "Chrome'u açın ve şu adrese gidin: {url}",
+  "gate.enableFlags": "Aşağıdaki bayrakları bulup etkinleştirin:",
+  "gate.optionalFlags":
+    "İsteğe bağlı olarak yeniden yazma, yanıt taslakları ve sorular için:",
+  "gate.restart": "Tarayıcınızı yeniden başlatın",
+  "gate.recheckHint":
+    "Aşağıdaki Yeniden denetle düğmesine basın veya sayfayı yenileyin",
+  "gate.errorDetails": "Hata ayrıntıları: {details}",
+
+  "recheck.label": "Yapay zekâ kullanılabilirliğini yeniden denetle",
+  "recheck.button": "Yeniden denetle",
+  "recheck.checking": "Denetleniyor...",
+
+  "stop.label": "Üretmeyi durdur",
+  "stop.button": "Durdur",
+
+  "error.failed": "{title}: başarısız oldu",
+  "error.failedWith": "{title}: başarısız oldu. {message}",
+  "error.stopped": "İşlem durduruldu.",
+  "error.unavailable.detect": "Dil algılama bu cihazda kullanılamıyor.",
+  "error.unavailable.translate": "Çeviri bu cihazda kullanılamıyor.",
+  "error.unavailable.summarize":
+    "Özetleme bu cihazda kullanılamıyor. Lütfen daha sonra tekrar deneyin veya başka bir cihaz kullanın.",
+  "error.unavailable.rewrite": "Yeniden yazma bu cihazda kullanılamıyor.",
+  "error.unavailable.write": "Yazma bu cihazda kullanılamıyor.",
+  "error.unavailable.prompt": "Prompt API bu cihazda kullanılamıyor.",
+  "error.unsupportedPair":
+    "{source} dilinden {target} diline çeviri desteklenmiyor.",
+  "error.summaryTooLong":
+    "Metin birkaç turdan sonra hâlâ özetlenemeyecek kadar uzun.",
+  "error.summaryNotShorter":
+    "Metin özetlenemeyecek kadar uzun: parçalarını özetlemek onu kısaltmadı.",
+  "error.serverResponse": "Yerel sunucu {status} {statusText} ile yanıt verdi",
+  "error.emptyCompletion": "Yerel sunucu boş bir yanıt döndürdü.",
+  "error.serverUnsupported.summarize":
+    "Bu yerel sunucu özetlemeyi desteklemiyor.",
+  "error.serverUnsupported.rewrite":
+    "Bu yerel sunucu yeniden yazmayı desteklemiyor.",
+  "error.serverUnsupported.write": "Bu yerel sunucu yazmayı desteklemiyor.",
+  "error.serverUnsupported.prompt": "Bu yerel sunucu soruları desteklemiyor.",
+  "errorLog.show": "Hata günlüğünü göster",
+  "errorLog.title": "Hata günlüğü",
+  "errorKind.unavailable": "Kullanılamıyor",
+  "errorKind.unsupported-pair": "Desteklenmeyen diller",
+  "errorKind.quota-exceeded": "Metin çok uzun",
+  "errorKind.aborted": "Durduruldu",
+  "errorKind.download-failed": "İndirme başarısız",
+  "errorKind.unknown": "Hata",
+
+  "progress.part": "{label} · {total} parçadan {part}. parça",
+  "progress.waiting": "Modelin indirilmesinin bitmesi bekleniyor...",
+  "progress.summarizing": "Özetleniyor",
+  "progress.translating": "Çevriliyor",
+  "progress.translatingCues": "Altyazılar çevriliyor",
+  "progress.translatingTo": "Çeviri: {language}",
+
+  "operation.detection": "Dil algılama",
+  "operation.summary": "Özet ({type} · {length})",
+  "operation.translation": "Çeviri: {language}",
+  "operation.import": "{file} içe aktarma",
+  "operation.noSourceLanguage": "Bu mesajın kaynak dili algılanmadı",
+  "operation.summaryNeedsTranslator":
+    "{language} metni özetlemek için önce İngilizceye çeviren Translator API'si gerekir.",
+  "operation.noTextInFile": "Dosyada metin bulunamadı.",
+  "operation.noMessageForCommand":
+    "Komut için henüz bir mesaj yok. Komuttan sonra metin ekleyin.",
+
+  "composer.placeholder":
+    "Mesajınızı buraya yazın ya da komutlar için / yazın...",
+  "composer.input": "Mesaj girişi",
+  "composer.send": "Mesajı gönder",
+  "composer.suggestions": "Komut önerileri",
+  "composer.hint":
+    "Göndermek için {enter}, yeni satır için {newLine} tuşuna basın, komutlar için {slash} yazın ya da içe aktarmak için dosyaları bırakın",
+  "composer.poweredBy": "{provider} ile çalışır",
+
+  "picker.label": "Çeviri dilini seç",
+  "picker.button": "Şu dile çevir...",
+  "picker.search": "Dil ara",
+  "picker.batchHint": "Hepsine birden çevirmek için birkaç dil işaretleyin",
+  "picker.checking": "Kullanılabilir diller denetleniyor...",
+  "picker.loadFailed": "Diller yüklenemedi: {message}",
+  "picker.noMatch": "Eşleşen dil yok",
+  "picker.addToBatch": "{language} dilini toplu çeviriye ekle",
+  "picker.ready": "Hazır",
+  "picker.needsDownload": "İndirme gerekli",
+  "picker.translateBatch": {
+    one: "{count} dile çevir",
+    other: "{count} dile çevir",
+  },
+
+  "memory.exact": "Bellekten",
+  "memory.fuzzy": "Öncekiyle %{percent} eşleşme",
+  "memory.assembled": "Hatırlanan cümlelerden oluşturuldu",
+  "memory.label": "Çeviri belleği",
+  "memory.title": "Çeviri belleği ({count})",
+  "memory.empty":
+    "Çeviriler ve özetler burada hatırlanır ve aynı metin yeniden geldiğinde kullanılır.",
+  "memory.search": "Bellekte ara",
+  "memory.summaryIn": "Özet · {language}",
+  "memory.delete": "Bellek kaydını sil",
+  "memory.loading": "Çeviri belleğinin yüklenmesi",
+  "memory.deleting": "Bir bellek kaydının silinmesi",
+  "memory.clearing": "Çeviri belleğinin temizlenmesi",
+
+  "summary.label": "Metni özetle",
+  "summary.button": "Yapay zekâyla özetle",
+  "summary.unavailable":
+    "Geçerli yapay zekâ arka ucuyla özetleme kullanılamıyor.",
+  "summary.title": "Yapay Zekâ Özeti",
+  "summary.inLanguage": "dil: {language}",
+  "summary.again": "Yeniden özetle",
+  "summary.formatted": "Biçimli",
+  "summary.raw": "Ham",
+  "summary.context": "Bağlam: {context}",
+  "summary.running": "Özetleniyor...",
+
+  "translation.pending": {
+    one: "Çevriliyor...",
+    other: "{count} dile çevriliyor...",
+  },
+  "translation.unavailable":
+    "Geçerli yapay zekâ arka ucuyla çeviri kullanılamıyor.",
+  "translation.needsSource":
+    "Çeviri için bir kaynak dil gerekir. Yukarıdaki dil etiketinden birini seçin.",
+  "translation.lowConfidence":
+    "Algılama bunun {language} olduğundan yalnızca {confidence} emin. Çevirmeden önce kaynak dili kontrol edin.",
+  "translation.title": "Çeviri: {language}",
+  "translation.reviewed": "{total} cümleden {reviewed} tanesi gözden geçirildi",
+  "translation.again": "Yeniden çevir",
+  "translation.sideBySide": "Yan yana",
+  "translation.download": ".{format} indir",
+  "translation.queued": "Diğer çeviriler bekleniyor...",
+  "translation.running": "Çevriliyor...",
+  "translation.subtitleDownload": "Altyazı indirme",
+
+  "provider.chrome": "Chrome yerleşik yapay zekâsı",
+  "provider.http": "Yerel sunucu",
+  "provider.settings": "Yapay zekâ arka uç ayarları",
+  "provider.backend": "Yapay zekâ arka ucu",
+  "provider.serverType": "Sunucu türü",
+  "provider.openai": "OpenAI uyumlu",
+  "provider.endpoint": "Uç nokta URL'si",
+  "provider.model": "Model",
+  "provider.apiKey": "API anahtarı (isteğe bağlı)",
+  "provider.apply": "Uygula",
+
+  "preferences.label": "Tercihler",
+  "preferences.summaryMinLength": "Şundan uzun mesajlar için özet öner:",
+  "preferences.characters": "karakter",
+  "preferences.translateSummaryBack":
+    "İngilizce olmayan metinlerin özetlerini özgün dile geri çevir",
+  "preferences.renderMarkdown": "Mesajları Markdown olarak biçimlendir",
+
+  "sidebar.new": "Yeni konuşma",
+  "sidebar.untitled": "Yeni konuşma",
+  "sidebar.search": "Konuşmalarda ara",
+  "sidebar.noMatch": "Eşleşen konuşma yok",
+  "sidebar.name": "Konuşma adı",
+  "sidebar.messages": {
+    one: "{count} mesaj",
+    other: "{count} mesaj",
+  },
+  "sidebar.rename": "{title} adını değiştir",
+  "sidebar.delete": "{title} konuşmasını sil",
+  "sidebar.confirmDelete":
+    '"{title}" silinsin mi? Mesajları, çevirileri ve özetleri kaybolacak.',
+
+  "export.label": "Konuşmayı dışa veya içe aktar",
+  "export.button": "Dışa aktar",
+  "export.as": "{format} olarak dışa aktar",
+  "export.importJson": "JSON içe aktar…",
+  "export.import": "Konuşmanın içe aktarılması",
+  "export.untitled": "Konuşma",
+  "export.message": "Mesaj {number}",
+  "export.detectedLanguage": "Algılanan dil:",
+  "export.sourceLanguage": "Kaynak dil:",
+  "export.importedFrom": "İçe aktarıldığı yer:",
+
+  "import.button": "Dosya içe aktar",
+  "import.hint":
+    "Metin, Markdown, HTML, PDF veya altyazı dosyalarını içe aktar",
+  "import.pdfNoText":
+    "Bu PDF'te çıkarılacak metin yok. Taranmış sayfalar önce OCR gerektirir.",
+  "import.pdfUnreadable":
+    "PDF okunamadı. Hasarlı veya parola korumalı olabilir.",
+  "import.unsupportedType":
+    "Yalnızca metin, Markdown, HTML, PDF, SRT ve VTT dosyaları içe aktarılabilir.",
+  "import.invalidJson": "Dosya geçerli bir JSON değil.",
+  "import.notConversation": "Dosya dışa aktarılmış bir konuşma değil.",
+  "import.unsupportedVersion":
+    "Desteklenmeyen konuşma dosyası sürümü: {version}",
+  "import.noMessages": "Dosyada hiç mesaj yok.",
+  "import.notObject": "{number}. mesaj bir nesne değil.",
+  "import.invalidField": '{number}. mesajın "{field}" alanı geçersiz.',
+
+  "download.progress": "İndiriliyor: {model}",
+  "download.detect": "dil algılama modeli",
+  "download.translate": "{source} → {target} çeviri modeli",
+  "download.summarize": "özetleme modeli",
+  "download.rewrite": "yeniden yazma modeli",
+  "download.write": "yazma modeli",
+  "download.prompt": "soru yanıtlama modeli",
+
+  "message.detectUnavailable":
+    "Geçerli yapay zekâ arka ucuyla dil algılama kullanılamıyor.",
+
+  "source.change": "Kaynak dili değiştir",
+  "source.detected": "Algılanan: {language}",
+  "source.set": "Kaynak: {language}",
+  "source.setManually": "(elle ayarlandı)",
+  "source.detectedHeading": "Algılananlar",
+  "source.search": "Başka bir dil seçin",
+  "source.searchLabel": "Kaynak dillerde ara",
+  "source.unknown": "Bilinmiyor",
+
+  "bilingual.edit": "{number}. cümleyi düzenle",
+  "bilingual.editTranslation": "Çevrilmiş {number}. cümleyi düzenle",
+  "bilingual.markReviewed":
+    "{number}. cümleyi gözden geçirildi olarak işaretle",
+  "bilingual.noMatch": "Eşleşen cümle yok",
+  "bilingual.edited": "düzenlendi",
+
+  "writing.reply": "Yanıt taslağı yaz",
+  "writing.ask": "Soru sor",
+  "writing.question": "Bu metinle ilgili soru",
+  "writing.questionPlaceholder": "Bu metin hakkında ne öğrenmek istersiniz?",
+  "writing.askButton": "Sor",
+  "writing.running": "Yazılıyor...",
+  "rewrite.more-formal": "Daha resmî",
+  "rewrite.more-casual": "Daha samimi",
+  "rewrite.shorter": "Daha kısa",
+  "generated.reply": "Yanıt taslağı",
+  "generated.answer": "S: {question}",
+  "generated.rewrite": "Yeniden yazım: {style}",
+
+  "glossary.label": "Sözlük",
+  "glossary.sourceLanguage": "Sözlük kaynak dili",
+  "glossary.targetLanguage": "Sözlük hedef dili",
+  "glossary.term": "Terim",
+  "glossary.sourceTerm": "Kaynak terim",
+  "glossary.translateAs": "Şöyle çevir",
+  "glossary.requiredTranslation": "Zorunlu çeviri",
+  "glossary.addTerm": "Terim ekle",
+  "glossary.empty": "Sözlükte henüz terim yok.",
+  "glossary.doNotTranslate": "Çevirme",
+  "glossary.keptPlaceholder": "Ürün adı, marka...",
+  "glossary.keptTerm": "Çevrilmeyecek terim",
+  "glossary.highlighted": "Sözlük terimi",
+
+  "summaryOptions.label": "Özet seçenekleri",
+  "summaryOptions.type": "Tür",
+  "summaryOptions.length": "Uzunluk",
+  "summaryOptions.format": "Biçim",
+  "summaryOptions.context": "Ortak bağlam (isteğe bağlı)",
+  "summaryOptions.contextPlaceholder":
+    "ör. Bunlar bir telefonla ilgili ürün yorumları",
+  "summaryOptions.submit": "Özetle",
+  "summaryType.key-points": "Ana noktalar",
+  "summaryType.tl;dr": "Kısaca",
+  "summaryType.teaser": "Tanıtım",
+  "summaryType.headline": "Başlık",
+  "summaryLength.short": "Kısa",
+  "summaryLength.medium": "Orta",
+  "summaryLength.long": "Uzun",
+  "summaryFormat.markdown": "Markdown",
+  "summaryFormat.plain-text": "Düz metin",
+
+  "command.translate": "Bir veya daha fazla dile çevir",
+  "command.summarize": "Özetle; isteğe bağlı olarak tür, uzunluk ve biçim seç",
+  "command.lang": "Kaynak dili ayarla",
+  "command.detect": "Kaynak dili yeniden algıla",
+  "command.summaryOption": "Özet seçeneği",
+  "command.translateNeedsLanguages":
+    "/translate için hedef diller gerekir, ör. es,fr.",
+  "command.langNeedsLanguage": "/lang için bir dil gerekir, ör. pt.",
+  "command.notLanguage": '"{code}" bir dil kodu değil, ör. "es" veya "pt-BR".',
+  "command.unknownTarget":
+    '/translate "{code}" dilini hedef dil olarak sunmuyor.',
+  "command.unknownSource": '/lang "{code}" dilini tanımıyor.',
+  "command.unknown": "Bilinmeyen komut {name}. Şunları deneyin: {commands}.",
+
+  "subtitles.cueMismatch":
+    "Çeviride {translated} altyazı var ama özgün metinde {original} var.",
+};
+
+export default tr;
@@ -0,0 +1,37 @@
+import type { DetectedLanguage } from "./ai";
+
+// Languages offered as translation targets. Backends can't list what they
+// support, so each one is probed against the source language before showing.
+export const candidateLanguages = (
+  "ar bg bn cs da de el en es fi fr he hi hr hu id it ja kn ko lt mr nl no " +
+  "pl pt ro ru sk sl sv ta te th tr uk vi zh zh-Hant"
+).split(" ");
+
+// Names in each interface language, created as they are needed
+const displayNames: Record<string, Intl.DisplayNames> = {};
+
+export const displayLanguageName = (code: string, locale: string): string => {
+  displayNames[locale] ??= new Intl.DisplayNames([locale], {
+    type: "language",
+  });
+  try {
+    return displayNames[locale].of(code) ?? code;
+  } catch {
+    // Not a valid BCP 47 tag, e.g. "unknown"
+    return code;
+  }
+};
+
+// Detections below this confidence are flagged for the user to double-check
+export const LOW_CONFIDENCE = 0.6;
+
+export const isLowConfidence = (
+  detected: DetectedLanguage[] | undefined,
+  overridden?: boolean
+) => {
+  const top = detected?.[0];
+  return !overridden && top !== undefined && top.confidence < LOW_CONFIDENCE;
+};
+
+export const formatConfidence = (confidence: number) =>
+  `${Math.round(confidence * 100)}%`;
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { createI18n } from "./i18n";
+import {
+  describeMemoryMatch,
+  recall,
+  recallTranslation,
+  remember,
+  rememberTranslation,
+  similarity,
+  translationTarget,
+} from "./memory";
+import {
+  listMemoryEntries,
+  MAX_MEMORY_ENTRIES,
+  saveMemoryEntries,
+} from "./storage/memory";
+
+describe("similarity", () => {
+  it("scores identical texts 1 and counts edits against the longer text", () => {
+    expect(similarity("hola", "hola")).toBe(1);
+    expect(similarity("hola mundo", "hola mundo!")).toBeCloseTo(10 / 11);
+    expect(
+      describeMemoryMatch(
+        createI18n("en").t,
+        similarity("a".repeat(50), "a".repeat(49))
+      )
+    ).toBe("98% match from earlier");
+  });
+});
+
+describe("recall", () => {
+  it("finds exact matches regardless of whitespace", async () => {
+    await remember("translation", "es", "en", [
+      { text: "Hola,  mundo.", result: "Hello, world." },
+    ]);
+    expect(await recall("translation", "es", "en", " Hola, mundo. ")).toEqual({
+      result: "Hello, world.",
+      resultLanguage: undefined,
+      similarity: 1,
+    });
+    expect(await recall("translation", "es", "fr", "Hola, mundo.")).toBeNull();
+  });
+
+  it("finds near-identical texts with their similarity", async () => {
+    await remember("summary", "en", "key-points:short", [
+      {
+        text: "The meeting moved to Thursday at ten in the morning.",
+        result: "Meeting on Thursday.",
+      },
+    ]);
+    const match = await recall(
+      "summary",
+      "en",
+      "key-points:short",
+      "The meeting moved to Thursday at ten in the morning!"
+    );
+    expect(match?.result).toBe("Meeting on Thursday.");
+    expect(match?.similarity).toBeGreaterThan(0.9);
+    expect(match?.similarity).toBeLessThan(1);
+  });
+});
+
+describe("recallTranslation", () => {
+  it("reuses sentences translated as part of other texts", async () => {
+    await rememberTranslation("mock", "Uno. Dos.", "One. Two.", "es", "en");
+    await rememberTranslation(
+      "mock",
+      "Tres. Cuatro.",
+      "Three. Four.",
+      "es",
+      "en"
+    );
+
+    expect(await recallTranslation("mock", "Dos. Tres.", "es", "en")).toEqual({
+      result: "Two. Three.",
+      match: "assembled",
+    });
+    expect(
+      await recallTranslation("mock", "Dos. Cinco.", "es", "en")
+    ).toBeNull();
+  });
+
+  it("keeps each backend's translations apart", async () => {
+    await rememberTranslation(
+      "mock",
+      "Buenos días.",
+      "Good morning.",
+      "es",
+      "en"
+    );
+
+    expect(await recallTranslation("mock", "Buenos días.", "es", "en")).toEqual(
+      { result: "Good morning.", match: 1 }
+    );
+    expect(
+      await recallTranslation("http", "Buenos días.", "es", "en")
+    ).toBeNull();
+  });
+
+  it("remembers long texts only whole", async () => {
+    const source = Array.from({ length: 300 }, (_, i) => `Frase ${i}.`);
+    const target = Array.from({ length: 300 }, (_, i) => `Sentence ${i}.`);
+    await rememberTranslation(
+      "mock",
+      source.join(" "),
+      target.join(" "),
+      "es",
+      "en"
+    );
+
+    expect(
+      (await recallTranslation("mock", source.join(" "), "es", "en"))?.result
+    ).toBe(target.join(" "));
+    expect(
+      await recall(
+        "translation",
+        "es",
+        translationTarget("mock", "en"),
+        "Frase 7."
+      )
+    ).toBeNull();
+  });
+});
+
+describe("saveMemoryEntries", () => {
+  it("forgets the least recently used entries once memory is full", async () => {
+    const entry = (i: number) => ({
+      id: `summary:en:short:${i}`,
+      kind: "summary" as const,
+      sourceLanguage: "en",
+      target: "short",
+      text: `Text ${i}`,
+      result: `Summary ${i}`,
+      usedAt: i,
+    });
+    await saveMemoryEntries(
+      Array.from({ length: MAX_MEMORY_ENTRIES + 10 }, (_, i) => entry(i + 1))
+    );
+
+    const entries = await listMemoryEntries();
+    expect(entries).toHaveLength(MAX_MEMORY_ENTRIES);
+    expect(entries.some((e) => e.usedAt <= 10)).toBe(false);
+  });
+});
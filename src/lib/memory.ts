@@ -0,0 +1,267 @@
+import { splitSentences, summaryKey, type SummarizeOptions } from "./ai";
+import { alignSentences, MAX_ALIGNED_SENTENCES } from "./alignment";
+import type { Translate } from "./i18n";
+import {
+  getMemoryEntry,
+  listPairEntries,
+  saveMemoryEntries,
+} from "./storage/memory";
+
+export type MemoryKind = "translation" | "summary";
+
+// A translation or summary kept for reuse when the same text comes up again
+export interface MemoryEntry {
+  // kind, source language, target and text, joined
+  id: string;
+  kind: MemoryKind;
+  sourceLanguage: string;
+  // translationTarget(...) or summaryTarget(...)
+  target: string;
+  // Normalized source text
+  text: string;
+  result: string;
+  // Target language of a translation, or the language of a summary, which
+  // may not be the source's
+  resultLanguage?: string;
+  usedAt: number;
+}
+
+export interface MemoryMatch {
+  result: string;
+  resultLanguage?: string;
+  // 1 for an exact match
+  similarity: number;
+}
+
+// How a remembered translation matched: its similarity, or "assembled" when
+// it was put together from sentences remembered separately
+export type TranslationMatch = number | "assembled";
+
+// Near-identical texts below this similarity are translated again
+export const FUZZY_MATCH_THRESHOLD = 0.9;
+
+// Edit distance is quadratic, so longer texts only match exactly
+const MAX_FUZZY_LENGTH = 1000;
+
+export const normalizeText = (text: string) =>
+  text.normalize("NFC").replace(/\s+/g, " ").trim();
+
+// Backends translate differently, so each remembers its own translations
+export const translationTarget = (providerId: string, targetLanguage: string) =>
+  [providerId, targetLanguage].join("|");
+
+// Summaries differ by provider, output language and options, so all three
+// pick the remembered one
+export const summaryTarget = (
+  providerId: string,
+  outputLanguage: string,
+  options: SummarizeOptions
+) => [providerId, outputLanguage, summaryKey(options)].join("|");
+
+const memoryId = (
+  kind: MemoryKind,
+  sourceLanguage: string,
+  target: string,
+  text: string
+) => [kind, sourceLanguage, target, text].join(":");
+
+// One minus the edit distance over the longer text's length
+export const similarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+// The entry closest to a normalized text, if it is close enough
+export const findFuzzyMatch = (entries: MemoryEntry[], text: string) => {
+  let best: { entry: MemoryEntry; similarity: number } | null = null;
+  for (const entry of entries) {
+    // Texts this different in length can't reach the threshold
+    const longer = Math.max(entry.text.length, text.length);
+    if (
+      Math.abs(entry.text.length - text.length) / longer >
+      1 - FUZZY_MATCH_THRESHOLD
+    ) {
+      continue;
+    }
+    const score = similarity(entry.text, text);
+    if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.similarity)) {
+      best = { entry, similarity: score };
+    }
+  }
+  return best;
+};
+
+export const describeMemoryMatch = (t: Translate, match: TranslationMatch) =>
+  match === "assembled"
+    ? t("memory.assembled")
+    : match === 1
+    ? t("memory.exact")
+    : t("memory.fuzzy", { percent: Math.floor(match * 100) });
+
+// Looks a text up, exactly and then fuzzily. Memory is only a shortcut, so
+// storage failures count as a miss.
+export const recall = async (
+  kind: MemoryKind,
+  sourceLanguage: string,
+  target: string,
+  text: string
+): Promise<MemoryMatch | null> => {
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+  try {
+    let found = await getMemoryEntry(
+      memoryId(kind, sourceLanguage, target, normalized)
+    );
+    let score = 1;
+    if (!found && normalized.length <= MAX_FUZZY_LENGTH) {
+      const fuzzy = findFuzzyMatch(
+        await listPairEntries(kind, sourceLanguage, target),
+        normalized
+      );
+      found = fuzzy?.entry;
+      score = fuzzy?.similarity ?? 0;
+    }
+    if (!found) return null;
+
+    await saveMemoryEntries([{ ...found, usedAt: Date.now() }]);
+    return {
+      result: found.result,
+      resultLanguage: found.resultLanguage,
+      similarity: score,
+    };
+  } catch (error) {
+    console.error("Memory lookup failed:", error);
+    return null;
+  }
+};
+
+// Translations of every segment, keeping each segment's surrounding
+// whitespace, or null unless all of them are remembered exactly
+export const recallSegments = async (
+  providerId: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  segments: string[]
+): Promise<string[] | null> => {
+  const target = translationTarget(providerId, targetLanguage);
+  try {
+    const results = await Promise.all(
+      segments.map(async (segment) => {
+        const normalized = normalizeText(segment);
+        if (!normalized) return segment;
+        const entry = await getMemoryEntry(
+          memoryId("translation", sourceLanguage, target, normalized)
+        );
+        if (!entry) return null;
+        const [leading] = segment.match(/^\s*/)!;
+        const [trailing] = segment.match(/\s*$/)!;
+        return leading + entry.result.trim() + trailing;
+      })
+    );
+    return results.every((result) => result !== null)
+      ? (results as string[])
+      : null;
+  } catch (error) {
+    console.error("Memory lookup failed:", error);
+    return null;
+  }
+};
+
+// A whole text, or one whose sentences were all translated before
+export const recallTranslation = async (
+  providerId: string,
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<{ result: string; match: TranslationMatch } | null> => {
+  const found = await recall(
+    "translation",
+    sourceLanguage,
+    translationTarget(providerId, targetLanguage),
+    text
+  );
+  if (found) return { result: found.result, match: found.similarity };
+  const sentences = splitSentences(text);
+  if (sentences.length < 2) return null;
+  const translated = await recallSegments(
+    providerId,
+    sourceLanguage,
+    targetLanguage,
+    sentences
+  );
+  return translated && { result: translated.join(""), match: "assembled" };
+};
+
+export const remember = async (
+  kind: MemoryKind,
+  sourceLanguage: string,
+  target: string,
+  pairs: { text: string; result: string }[],
+  resultLanguage?: string
+) => {
+  const usedAt = Date.now();
+  const entries = pairs.flatMap(({ text, result }) => {
+    const normalized = normalizeText(text);
+    if (!normalized || !result.trim()) return [];
+    return [
+      {
+        id: memoryId(kind, sourceLanguage, target, normalized),
+        kind,
+        sourceLanguage,
+        target,
+        text: normalized,
+        result,
+        resultLanguage,
+        usedAt,
+      },
+    ];
+  });
+  try {
+    await saveMemoryEntries(entries);
+  } catch (error) {
+    console.error("Saving to memory failed:", error);
+  }
+};
+
+// The whole text and each aligned sentence, so sentences can be reused in
+// other messages
+export const rememberTranslation = (
+  providerId: string,
+  text: string,
+  translation: string,
+  sourceLanguage: string,
+  targetLanguage: string
+) => {
+  // Longer texts are paired in order, which may drift, so they're only
+  // remembered whole
+  const sentences = Math.max(
+    splitSentences(text).length,
+    splitSentences(translation).length
+  );
+  const rows =
+    sentences <= MAX_ALIGNED_SENTENCES
+      ? alignSentences(text, translation).map((row) => ({
+          text: row.source,
+          result: row.translation,
+        }))
+      : [];
+  return remember(
+    "translation",
+    sourceLanguage,
+    translationTarget(providerId, targetLanguage),
+    [{ text, result: translation }, ...(rows.length > 1 ? rows : [])],
+    targetLanguage
+  );
+};
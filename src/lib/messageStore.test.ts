@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { defaultSummaryOptions, summaryKey } from "./ai";
+import {
+  messagesReducer,
+  statusReducer,
+  translationSnapshot,
+} from "./messageStore";
+import type { Message } from "../types";
+
+const message = (overrides: Partial<Message> = {}): Message => ({
+  id: "m1",
+  text: "Hola mundo",
+  language: "es",
+  detectedLanguages: [
+    { language: "es", confidence: 0.9 },
+    { language: "pt", confidence: 0.1 },
+  ],
+  summaries: {},
+  translations: {},
+  ...overrides,
+});
+
+describe("messagesReducer", () => {
+  it("appends added messages", () => {
+    const added = message({ id: "m2" });
+    expect(
+      messagesReducer([message()], { type: "addMessage", message: added })
+    ).toEqual([message(), added]);
+  });
+
+  it("marks a source language override unless it matches the detection", () => {
+    const [overridden] = messagesReducer([message()], {
+      type: "setSourceLanguage",
+      messageId: "m1",
+      language: "pt",
+    });
+    expect(overridden).toMatchObject({
+      language: "pt",
+      languageOverridden: true,
+    });
+
+    const [restored] = messagesReducer([overridden], {
+      type: "setSourceLanguage",
+      messageId: "m1",
+      language: "es",
+    });
+    expect(restored.languageOverridden).toBe(false);
+  });
+
+  it("keeps an overridden language when detection runs again", () => {
+    const [updated] = messagesReducer(
+      [message({ language: "pt", languageOverridden: true })],
+      {
+        type: "setDetectedLanguages",
+        messageId: "m1",
+        detectedLanguages: [{ language: "gl", confidence: 0.8 }],
+      }
+    );
+    expect(updated.language).toBe("pt");
+    expect(updated.detectedLanguages).toEqual([
+      { language: "gl", confidence: 0.8 },
+    ]);
+  });
+
+  it("sets and removes summaries by their options", () => {
+    const key = summaryKey(defaultSummaryOptions);
+    const [summarized] = messagesReducer([message()], {
+      type: "setSummary",
+      messageId: "m1",
+      options: defaultSummaryOptions,
+      text: "Un saludo.",
+      language: "es",
+    });
+    expect(summarized.summaries[key]).toEqual({
+      options: defaultSummaryOptions,
+      text: "Un saludo.",
+      language: "es",
+    });
+
+    const [removed] = messagesReducer([summarized], {
+      type: "setSummary",
+      messageId: "m1",
+      options: defaultSummaryOptions,
+      text: undefined,
+    });
+    expect(removed.summaries).toEqual({});
+  });
+
+  it("discards only translations that never got text", () => {
+    const messages = [message({ translations: { fr: "", de: "Hallo Welt" } })];
+    const discard = (language: string) =>
+      messagesReducer(messages, {
+        type: "discardEmptyTranslation",
+        messageId: "m1",
+        language,
+      });
+
+    expect(discard("fr")[0].translations).toEqual({ de: "Hallo Welt" });
+    expect(discard("de")).toBe(messages);
+  });
+
+  it("keeps one result per rewrite style and discards empty ones", () => {
+    const [rewritten] = messagesReducer([message()], {
+      type: "setGenerated",
+      messageId: "m1",
+      key: "shorter",
+      result: { kind: "shorter", text: "" },
+    });
+    expect(rewritten.generated).toEqual({
+      shorter: { kind: "shorter", text: "" },
+    });
+
+    const [discarded] = messagesReducer([rewritten], {
+      type: "discardEmptyGenerated",
+      messageId: "m1",
+      key: "shorter",
+    });
+    expect(discarded.generated).toEqual({});
+  });
+
+  it("stores sentence edits and reviews alongside the translation", () => {
+    const translated = message({
+      text: "Hola. Adiós.",
+      translations: { en: "Hello. Goodbye." },
+    });
+    const [edited] = messagesReducer([translated], {
+      type: "editSentence",
+      messageId: "m1",
+      language: "en",
+      index: 1,
+      text: "Bye.",
+    });
+    expect(edited.translations.en).toBe("Hello. Bye.");
+
+    const [reviewed] = messagesReducer([edited], {
+      type: "setSentenceReviewed",
+      messageId: "m1",
+      language: "en",
+      index: 0,
+      reviewed: true,
+    });
+    expect(reviewed.alignments?.en).toEqual([
+      { source: "Hola. ", translation: "Hello. ", reviewed: true },
+      { source: "Adiós.", translation: "Bye.", edited: true },
+    ]);
+
+    const [retranslated] = messagesReducer([reviewed], {
+      type: "setTranslation",
+      messageId: "m1",
+      language: "en",
+      text: "Hi. Bye.",
+    });
+    expect(retranslated.alignments).toEqual({});
+
+    const [restored] = messagesReducer([retranslated], {
+      type: "restoreTranslation",
+      messageId: "m1",
+      language: "en",
+      snapshot: translationSnapshot(reviewed, "en")!,
+    });
+    expect(restored).toEqual(reviewed);
+  });
+
+  it("leaves the list untouched for unknown messages", () => {
+    const messages = [message()];
+    expect(
+      messagesReducer(messages, {
+        type: "setTranslation",
+        messageId: "missing",
+        language: "fr",
+        text: "Bonjour",
+      })
+    ).toBe(messages);
+  });
+});
+
+describe("statusReducer", () => {
+  it("tracks an operation from queued to finished", () => {
+    const key = "translation:m1:fr";
+    let statuses = statusReducer(
+      {},
+      { type: "setStatus", key, status: { state: "queued" } }
+    );
+    statuses = statusReducer(statuses, {
+      type: "setStatus",
+      key,
+      status: { state: "running" },
+    });
+    statuses = statusReducer(statuses, {
+      type: "setProgress",
+      key,
+      progress: { done: 1, total: 3, label: "Translating" },
+    });
+    expect(statuses[key]).toEqual({
+      state: "running",
+      progress: { done: 1, total: 3, label: "Translating" },
+    });
+
+    expect(
+      statusReducer(statuses, { type: "setStatus", key, status: undefined })
+    ).toEqual({});
+  });
+
+  it("ignores progress for finished operations", () => {
+    const statuses = {};
+    expect(
+      statusReducer(statuses, {
+        type: "setProgress",
+        key: "summary:m1:x",
+        progress: { done: 1, total: 2, label: "Summarizing" },
+      })
+    ).toBe(statuses);
+  });
+});
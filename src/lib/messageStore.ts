@@ -0,0 +1,327 @@
+import {
+  editAlignedSentence,
+  joinTranslation,
+  messageAlignment,
+} from "./alignment";
+import {
+  summaryKey,
+  type ChunkProgress,
+  type DetectedLanguage,
+  type SummarizeOptions,
+} from "./ai";
+import type { TranslationMatch } from "./memory";
+import type {
+  AlignedSentence,
+  GeneratedText,
+  Message,
+  OperationStatus,
+} from "../types";
+
+// Operation keys, shared by statuses, inline errors and abort controllers
+export const detectionKey = (messageId: string) => `detect:${messageId}`;
+
+export const summaryOperationKey = (messageId: string, key: string) =>
+  `summary:${messageId}:${key}`;
+
+export const translationKey = (messageId: string, language: string) =>
+  `translation:${messageId}:${language}`;
+
+export const generationKey = (messageId: string, key: string) =>
+  `generate:${messageId}:${key}`;
+
+// A translation with its memory match and reviewed sentences, kept while a
+// re-run replaces it so a failed or stopped one can put it back
+export interface TranslationSnapshot {
+  text: string;
+  memoryMatch?: TranslationMatch;
+  alignments?: AlignedSentence[];
+}
+
+export const translationSnapshot = (
+  message: Message,
+  language: string
+): TranslationSnapshot | undefined =>
+  message.translations[language] === undefined
+    ? undefined
+    : {
+        text: message.translations[language],
+        memoryMatch: message.translationMatches?.[language],
+        alignments: message.alignments?.[language],
+      };
+
+// Every change to a conversation's messages goes through one of these
+export type MessageAction =
+  | { type: "addMessage"; message: Message }
+  | {
+      type: "setDetectedLanguages";
+      messageId: string;
+      detectedLanguages: DetectedLanguage[];
+    }
+  | { type: "setSourceLanguage"; messageId: string; language: string }
+  // `text: undefined` removes the summary
+  | {
+      type: "setSummary";
+      messageId: string;
+      options: SummarizeOptions;
+      text: string | undefined;
+      language?: string;
+      memoryMatch?: number;
+    }
+  // Removes the summary only if it never got any text
+  | {
+      type: "discardEmptySummary";
+      messageId: string;
+      options: SummarizeOptions;
+    }
+  // `text: undefined` removes the translation
+  | {
+      type: "setTranslation";
+      messageId: string;
+      language: string;
+      text: string | undefined;
+      memoryMatch?: TranslationMatch;
+    }
+  // Removes the translation only if it never got any text
+  | { type: "discardEmptyTranslation"; messageId: string; language: string }
+  | {
+      type: "restoreTranslation";
+      messageId: string;
+      language: string;
+      snapshot: TranslationSnapshot;
+    }
+  // `result: undefined` removes the rewrite, reply or answer
+  | {
+      type: "setGenerated";
+      messageId: string;
+      key: string;
+      result: GeneratedText | undefined;
+    }
+  // Removes the result only if it never got any text
+  | { type: "discardEmptyGenerated"; messageId: string; key: string }
+  // Rewrites one row of the side-by-side view and the translation with it
+  | {
+      type: "editSentence";
+      messageId: string;
+      language: string;
+      index: number;
+      text: string;
+    }
+  | {
+      type: "setSentenceReviewed";
+      messageId: string;
+      language: string;
+      index: number;
+      reviewed: boolean;
+    };
+
+// Changes to the in-flight operations, keyed by operation
+export type StatusAction =
+  // `status: undefined` marks the operation finished
+  | { type: "setStatus"; key: string; status: OperationStatus | undefined }
+  // Ignored once the operation has finished
+  | {
+      type: "setProgress";
+      key: string;
+      progress: ChunkProgress & { label: string };
+    };
+
+export type MessageStoreAction = MessageAction | StatusAction;
+
+export const isStatusAction = (
+  action: MessageStoreAction
+): action is StatusAction =>
+  action.type === "setStatus" || action.type === "setProgress";
+
+const updateMessage = (
+  messages: Message[],
+  messageId: string,
+  update: (message: Message) => Message
+) => {
+  const index = messages.findIndex((message) => message.id === messageId);
+  if (index < 0) return messages;
+  const updated = update(messages[index]);
+  if (updated === messages[index]) return messages;
+  const next = [...messages];
+  next[index] = updated;
+  return next;
+};
+
+const without = <T>(record: Record<string, T>, key: string) => {
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+export const messagesReducer = (
+  messages: Message[],
+  action: MessageAction
+): Message[] => {
+  switch (action.type) {
+    case "addMessage":
+      return [...messages, action.message];
+
+    case "setDetectedLanguages":
+      if (action.detectedLanguages.length === 0) return messages;
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        detectedLanguages: action.detectedLanguages,
+        language: message.languageOverridden
+          ? message.language
+          : action.detectedLanguages[0].language,
+      }));
+
+    case "setSourceLanguage":
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        language: action.language,
+        languageOverridden:
+          action.language !== message.detectedLanguages?.[0]?.language,
+      }));
+
+    case "setSummary": {
+      const key = summaryKey(action.options);
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        summaries:
+          action.text === undefined
+            ? without(message.summaries, key)
+            : {
+                ...message.summaries,
+                [key]: {
+                  options: action.options,
+                  text: action.text,
+                  language: action.language,
+                  memoryMatch: action.memoryMatch,
+                },
+              },
+      }));
+    }
+
+    case "discardEmptySummary": {
+      const key = summaryKey(action.options);
+      return updateMessage(messages, action.messageId, (message) =>
+        key in message.summaries && !message.summaries[key].text
+          ? { ...message, summaries: without(message.summaries, key) }
+          : message
+      );
+    }
+
+    // A new machine translation replaces any reviewed alignment
+    case "setTranslation":
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        translations:
+          action.text === undefined
+            ? without(message.translations, action.language)
+            : { ...message.translations, [action.language]: action.text },
+        alignments:
+          message.alignments && without(message.alignments, action.language),
+        translationMatches:
+          action.memoryMatch !== undefined
+            ? {
+                ...message.translationMatches,
+                [action.language]: action.memoryMatch,
+              }
+            : message.translationMatches &&
+              without(message.translationMatches, action.language),
+      }));
+
+    case "discardEmptyTranslation":
+      return updateMessage(messages, action.messageId, (message) =>
+        action.language in message.translations &&
+        !message.translations[action.language]
+          ? {
+              ...message,
+              translations: without(message.translations, action.language),
+            }
+          : message
+      );
+
+    case "restoreTranslation": {
+      const { language, snapshot } = action;
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        translations: { ...message.translations, [language]: snapshot.text },
+        translationMatches:
+          snapshot.memoryMatch !== undefined
+            ? {
+                ...message.translationMatches,
+                [language]: snapshot.memoryMatch,
+              }
+            : message.translationMatches &&
+              without(message.translationMatches, language),
+        alignments: snapshot.alignments
+          ? { ...message.alignments, [language]: snapshot.alignments }
+          : message.alignments && without(message.alignments, language),
+      }));
+    }
+
+    case "setGenerated":
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        generated: action.result
+          ? { ...message.generated, [action.key]: action.result }
+          : without(message.generated ?? {}, action.key),
+      }));
+
+    case "discardEmptyGenerated":
+      return updateMessage(messages, action.messageId, (message) =>
+        message.generated?.[action.key] && !message.generated[action.key].text
+          ? { ...message, generated: without(message.generated, action.key) }
+          : message
+      );
+
+    case "editSentence":
+      return updateMessage(messages, action.messageId, (message) => {
+        const rows = editAlignedSentence(
+          messageAlignment(message, action.language),
+          action.index,
+          action.text
+        );
+        return {
+          ...message,
+          translations: {
+            ...message.translations,
+            [action.language]: joinTranslation(rows),
+          },
+          alignments: { ...message.alignments, [action.language]: rows },
+        };
+      });
+
+    case "setSentenceReviewed":
+      return updateMessage(messages, action.messageId, (message) => ({
+        ...message,
+        alignments: {
+          ...message.alignments,
+          [action.language]: messageAlignment(message, action.language).map(
+            (row, index) =>
+              index === action.index
+                ? { ...row, reviewed: action.reviewed }
+                : row
+          ),
+        },
+      }));
+  }
+};
+
+export const statusReducer = (
+  statuses: Record<string, OperationStatus>,
+  action: StatusAction
+): Record<string, OperationStatus> => {
+  switch (action.type) {
+    case "setStatus":
+      if (action.status) {
+        return { ...statuses, [action.key]: action.status };
+      }
+      return action.key in statuses ? without(statuses, action.key) : statuses;
+
+    case "setProgress": {
+      const status = statuses[action.key];
+      if (!status) return statuses;
+      return {
+        ...statuses,
+        [action.key]: { ...status, progress: action.progress },
+      };
+    }
+  }
+};
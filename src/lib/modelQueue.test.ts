@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import { createModelQueue } from "./modelQueue";
+
+describe("createModelQueue", () => {
+  it("holds requests while the first one downloads the model", async () => {
+    const queue = createModelQueue();
+    let ready = false;
+    const options = {
+      availability: "after-download" as const,
+      isReady: async () => ready,
+    };
+
+    expect(
+      await queue.acquire("summarize", { ...options, availability: "readily" })
+    ).toBeTypeOf("function");
+    const release = await queue.acquire("summarize", options);
+    const onWait = vi.fn();
+    let resumed = false;
+    const waiting = queue
+      .acquire("summarize", { ...options, onWait })
+      .then(() => (resumed = true));
+    expect(onWait).toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(resumed).toBe(false);
+    ready = true;
+    release();
+    await waiting;
+
+    // Ready models aren't queued anymore, even with stale availability
+    const later = vi.fn();
+    await queue.acquire("summarize", { ...options, onWait: later });
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it("lets the next request try when a download fails", async () => {
+    const queue = createModelQueue();
+    const options = {
+      availability: "after-download" as const,
+      isReady: async () => false,
+    };
+
+    const release = await queue.acquire("translate", options);
+    const next = queue.acquire("translate", options);
+    release();
+    expect(await next).toBeTypeOf("function");
+  });
+
+  it("resumes waiting requests once polling finds the model", async () => {
+    const queue = createModelQueue(10);
+    let ready = false;
+    const options = {
+      availability: "after-download" as const,
+      isReady: async () => ready,
+    };
+
+    await queue.acquire("rewrite", options);
+    const waiting = queue.acquire("rewrite", options);
+    ready = true;
+    expect(await waiting).toBeTypeOf("function");
+  });
+
+  it("drops a waiting request when it is stopped", async () => {
+    const queue = createModelQueue();
+    const options = {
+      availability: "after-download" as const,
+      isReady: async () => false,
+    };
+    const controller = new AbortController();
+
+    await queue.acquire("write", options);
+    const waiting = queue.acquire("write", {
+      ...options,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(waiting).rejects.toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import type { Availability, Capability } from "./ai";
+
+// How often the backend is asked again while requests wait for a model
+const POLL_INTERVAL = 3000;
+
+interface AcquireOptions {
+  // What capabilities() reported when the request was made
+  availability: Availability;
+  // Asks the backend whether the model is on the device now
+  isReady: () => Promise<boolean>;
+  signal?: AbortSignal;
+  // Called when the request has to wait for the download
+  onWait?: () => void;
+}
+
+// Releases a slot taken with acquire(); calling it more than once is fine
+export type ReleaseModel = () => void;
+
+export interface ModelQueue {
+  acquire(
+    capability: Capability,
+    options: AcquireOptions
+  ): Promise<ReleaseModel>;
+}
+
+interface Line {
+  // A request is using the model, most likely downloading it
+  downloading: boolean;
+  waiting: {
+    resolve: (release: ReleaseModel) => void;
+    reject: (reason: unknown) => void;
+  }[];
+  isReady: () => Promise<boolean>;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+const noop = () => {};
+
+// Holds requests for a model that is still downloading. The first request
+// goes ahead and starts the download; the rest wait until capabilities()
+// reports the model ready, or take over when the download fails.
+export const createModelQueue = (pollInterval = POLL_INTERVAL): ModelQueue => {
+  const ready = new Set<Capability>();
+  const lines = new Map<Capability, Line>();
+
+  const lead = (capability: Capability, line: Line): ReleaseModel => {
+    line.downloading = true;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      line.downloading = false;
+      check(capability, line);
+    };
+  };
+
+  const check = async (capability: Capability, line: Line) => {
+    let isReady = false;
+    try {
+      isReady = await line.isReady();
+    } catch (error) {
+      console.error("Model availability check failed:", error);
+    }
+
+    if (isReady) {
+      ready.add(capability);
+      clearInterval(line.timer);
+      lines.delete(capability);
+      line.waiting.splice(0).forEach(({ resolve }) => resolve(noop));
+      return;
+    }
+    if (!line.downloading && line.waiting.length > 0) {
+      line.waiting.shift()!.resolve(lead(capability, line));
+    }
+    if (line.waiting.length === 0) {
+      clearInterval(line.timer);
+      line.timer = undefined;
+    }
+  };
+
+  return {
+    acquire(capability, { availability, isReady, signal, onWait }) {
+      if (availability !== "after-download" || ready.has(capability)) {
+        return Promise.resolve(noop);
+      }
+
+      let line = lines.get(capability);
+      if (!line) {
+        line = { downloading: false, waiting: [], isReady };
+        lines.set(capability, line);
+      }
+      line.isReady = isReady;
+      if (!line.downloading) return Promise.resolve(lead(capability, line));
+
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      const waitingLine = line;
+      onWait?.();
+      return new Promise<ReleaseModel>((resolve, reject) => {
+        const entry = { resolve, reject };
+        waitingLine.waiting.push(entry);
+        signal?.addEventListener(
+          "abort",
+          () => {
+            const index = waitingLine.waiting.indexOf(entry);
+            if (index >= 0) waitingLine.waiting.splice(index, 1);
+            reject(signal.reason);
+          },
+          { once: true }
+        );
+        waitingLine.timer ??= setInterval(
+          () => check(capability, waitingLine),
+          pollInterval
+        );
+      });
+    },
+  };
+};
@@ -0,0 +1,29 @@
+// Text of every page of a PDF, a blank line between pages. pdf.js is large,
+// so it's only loaded once a PDF is imported.
+export const pdfToText = async (data: ArrayBuffer) => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      pages.push(
+        items
+          .map((item) =>
+            "str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""
+          )
+          .join("")
+          .trim()
+      );
+    }
+    return pages.filter(Boolean).join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,30 @@
+export interface Preferences {
+  renderMarkdownMessages: boolean;
+  // Messages shorter than this don't offer summarization
+  summaryMinLength: number;
+  // Translate summaries of non-English text back to the source language
+  translateSummaryBack: boolean;
+}
+
+const STORAGE_KEY = "preferences";
+
+export const defaultPreferences: Preferences = {
+  renderMarkdownMessages: false,
+  summaryMinLength: 150,
+  translateSummaryBack: true,
+};
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { ...defaultPreferences, ...JSON.parse(stored) }
+      : defaultPreferences;
+  } catch {
+    return defaultPreferences;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
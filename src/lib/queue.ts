@@ -0,0 +1,30 @@
+export interface TaskQueue {
+  enqueue(task: () => Promise<void>): void;
+}
+
+// Runs tasks in the order they were added with at most `concurrency` of them
+// in flight. Tasks handle their own errors; anything thrown is only logged.
+export const createTaskQueue = (concurrency: number): TaskQueue => {
+  const pending: (() => Promise<void>)[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && pending.length > 0) {
+      const task = pending.shift()!;
+      running++;
+      task()
+        .catch((error) => console.error("Queued task failed:", error))
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    enqueue(task) {
+      pending.push(task);
+      next();
+    },
+  };
+};
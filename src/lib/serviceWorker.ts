@@ -0,0 +1,10 @@
+// Registers the service worker in public/sw.js, which caches the app shell
+// so the app opens offline. Failing to register only loses offline support.
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+};
@@ -0,0 +1,19 @@
+import { dbPromise } from "./db";
+import type { Conversation } from "../../types";
+
+// Most recently updated first
+export const listConversations = async (): Promise<Conversation[]> => {
+  const db = await dbPromise();
+  const conversations = await db.getAllFromIndex("conversations", "updatedAt");
+  return conversations.reverse();
+};
+
+export const saveConversation = async (conversation: Conversation) => {
+  const db = await dbPromise();
+  await db.put("conversations", conversation);
+};
+
+export const deleteConversation = async (id: string) => {
+  const db = await dbPromise();
+  await db.delete("conversations", id);
+};
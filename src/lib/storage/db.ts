@@ -0,0 +1,43 @@
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import type { MemoryEntry } from "../memory";
+import type { Conversation } from "../../types";
+
+interface AppDB extends DBSchema {
+  conversations: {
+    key: string;
+    value: Conversation;
+    indexes: { updatedAt: number };
+  };
+  memory: {
+    key: string;
+    value: MemoryEntry;
+    indexes: {
+      // Entries a text can be fuzzily matched against
+      pair: [string, string, string];
+      usedAt: number;
+    };
+  };
+}
+
+let dbConnection: Promise<IDBPDatabase<AppDB>> | undefined;
+
+export const dbPromise = () => {
+  if (!dbConnection) {
+    dbConnection = openDB<AppDB>("ai-text-processor", 2, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore("conversations", {
+            keyPath: "id",
+          });
+          store.createIndex("updatedAt", "updatedAt");
+        }
+        if (oldVersion < 2) {
+          const store = db.createObjectStore("memory", { keyPath: "id" });
+          store.createIndex("pair", ["kind", "sourceLanguage", "target"]);
+          store.createIndex("usedAt", "usedAt");
+        }
+      },
+    });
+  }
+  return dbConnection;
+};
@@ -0,0 +1,52 @@
+import { dbPromise } from "./db";
+import type { MemoryEntry, MemoryKind } from "../memory";
+
+// Memory only saves work, so past this size the least recently used entries
+// are forgotten
+export const MAX_MEMORY_ENTRIES = 5000;
+
+export const getMemoryEntry = async (id: string) => {
+  const db = await dbPromise();
+  return db.get("memory", id);
+};
+
+// Entries for one kind and language pair, to search for fuzzy matches
+export const listPairEntries = async (
+  kind: MemoryKind,
+  sourceLanguage: string,
+  target: string
+) => {
+  const db = await dbPromise();
+  return db.getAllFromIndex("memory", "pair", [kind, sourceLanguage, target]);
+};
+
+// Most recently used first
+export const listMemoryEntries = async (): Promise<MemoryEntry[]> => {
+  const db = await dbPromise();
+  const entries = await db.getAllFromIndex("memory", "usedAt");
+  return entries.reverse();
+};
+
+export const saveMemoryEntries = async (entries: MemoryEntry[]) => {
+  const db = await dbPromise();
+  const tx = db.transaction("memory", "readwrite");
+  await Promise.all(entries.map((entry) => tx.store.put(entry)));
+
+  let excess = (await tx.store.count()) - MAX_MEMORY_ENTRIES;
+  let cursor = excess > 0 ? await tx.store.index("usedAt").openCursor() : null;
+  while (cursor && excess-- > 0) {
+    await cursor.delete();
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+};
+
+export const deleteMemoryEntry = async (id: string) => {
+  const db = await dbPromise();
+  await db.delete("memory", id);
+};
+
+export const clearMemory = async () => {
+  const db = await dbPromise();
+  await db.clear("memory");
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { downloadFile } from "./download";
+import { createI18n } from "./i18n";
+import {
+  downloadSubtitles,
+  formatSubtitles,
+  joinCueTexts,
+  parseSubtitles,
+  splitCueTexts,
+} from "./subtitles";
+
+vi.mock("./download", () => ({ downloadFile: vi.fn() }));
+
+const { t } = createI18n("en");
+
+const srt = `1
+00:00:01,000 --> 00:00:02,500
+Hola
+
+2
+00:00:03,000 --> 00:00:05,000
+¿Cómo estás?
+Muy bien.
+`;
+
+const vtt = `WEBVTT - Episode 1
+
+STYLE
+::cue { color: yellow }
+
+NOTE Translator notes are dropped
+
+intro
+00:00.000 --> 00:01.500 align:start line:0
+Hola
+
+00:02.000 --> 00:04.000
+¿Cómo estás?
+Muy bien.
+`;
+
+describe("parseSubtitles", () => {
+  it("reads SRT cues with their indices and every text line", () => {
+    const track = parseSubtitles(srt, "srt");
+    expect(track.cues).toEqual([
+      { id: "1", start: "00:00:01,000", end: "00:00:02,500", text: "Hola" },
+      {
+        id: "2",
+        start: "00:00:03,000",
+        end: "00:00:05,000",
+        text: "¿Cómo estás?\nMuy bien.",
+      },
+    ]);
+  });
+
+  it("keeps VTT headers, identifiers and settings and skips notes", () => {
+    const track = parseSubtitles(vtt.replace(/\n/g, "\r\n"), "vtt");
+    expect(track.header).toBe(
+      "WEBVTT - Episode 1\n\nSTYLE\n::cue { color: yellow }"
+    );
+    expect(track.cues).toEqual([
+      {
+        id: "intro",
+        start: "00:00.000",
+        end: "00:01.500",
+        settings: "align:start line:0",
+        text: "Hola",
+      },
+      {
+        start: "00:02.000",
+        end: "00:04.000",
+        text: "¿Cómo estás?\nMuy bien.",
+      },
+    ]);
+  });
+});
+
+describe("formatSubtitles", () => {
+  it("writes SRT back unchanged", () => {
+    expect(formatSubtitles(parseSubtitles(srt, "srt"))).toBe(srt);
+  });
+
+  it("writes VTT back without its notes", () => {
+    expect(formatSubtitles(parseSubtitles(vtt, "vtt"))).toBe(
+      vtt.replace("NOTE Translator notes are dropped\n\n", "")
+    );
+  });
+
+  it("puts translated texts in place of the originals", () => {
+    const track = parseSubtitles(srt, "srt");
+    expect(formatSubtitles(track, ["Hello", "How are you?\nFine."])).toBe(
+      `1
+00:00:01,000 --> 00:00:02,500
+Hello
+
+2
+00:00:03,000 --> 00:00:05,000
+How are you?
+Fine.
+`
+    );
+  });
+});
+
+describe("cue texts", () => {
+  it("survive joining and splitting, with blank lines in a cue removed", () => {
+    const joined = joinCueTexts(["Hola", "Línea uno\n\nLínea dos"]);
+    expect(splitCueTexts(joined)).toEqual(["Hola", "Línea uno\nLínea dos"]);
+  });
+});
+
+describe("downloadSubtitles", () => {
+  it("refuses a translation whose cue count doesn't match", () => {
+    const track = parseSubtitles(srt, "srt");
+    expect(() => downloadSubtitles(t, track, "Hello", "en")).toThrow(
+      "The translation has 1 cues but the original has 2."
+    );
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+
+  it("names the file after the track and the language", () => {
+    const track = { ...parseSubtitles(srt, "srt"), name: "episode.srt" };
+    downloadSubtitles(t, track, joinCueTexts(["Hello", "Fine."]), "en");
+    expect(downloadFile).toHaveBeenCalledWith(
+      "episode.en.srt",
+      formatSubtitles(track, ["Hello", "Fine."]),
+      "application/x-subrip"
+    );
+  });
+});
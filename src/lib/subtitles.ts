@@ -0,0 +1,138 @@
+import { downloadFile } from "./download";
+import type { Translate } from "./i18n";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleCue {
+  // SRT index or optional VTT cue identifier
+  id?: string;
+  start: string;
+  end: string;
+  // VTT cue settings such as "align:start line:0"
+  settings?: string;
+  text: string;
+}
+
+export interface SubtitleTrack {
+  format: SubtitleFormat;
+  // File the cues came from, used to name downloads
+  name?: string;
+  // VTT only: the WEBVTT line plus any STYLE and REGION blocks
+  header?: string;
+  cues: SubtitleCue[];
+}
+
+const TIMING = /^(\S+)\s+-->\s+(\S+)\s*(.*)$/;
+
+// Parses SRT or WebVTT content. Timestamps are kept as written so they can be
+// written back unchanged; NOTE blocks and malformed blocks are skipped.
+export const parseSubtitles = (
+  content: string,
+  format: SubtitleFormat
+): SubtitleTrack => {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n+/)
+    .map((block) => block.replace(/^\n+|\n+$/g, ""))
+    .filter(Boolean);
+
+  const headerBlocks: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach((block, index) => {
+    if (format === "vtt") {
+      if (index === 0 && block.startsWith("WEBVTT")) {
+        headerBlocks.push(block);
+        return;
+      }
+      if (block.startsWith("NOTE")) return;
+      if (block.startsWith("STYLE") || block.startsWith("REGION")) {
+        headerBlocks.push(block);
+        return;
+      }
+    }
+
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    // At most one identifier line may come before the timing
+    if (timingIndex < 0 || timingIndex > 1) return;
+
+    const timing = lines[timingIndex].trim().match(TIMING);
+    if (!timing) return;
+
+    cues.push({
+      id: timingIndex === 1 ? lines[0].trim() : undefined,
+      start: timing[1],
+      end: timing[2],
+      settings: timing[3] || undefined,
+      text: lines.slice(timingIndex + 1).join("\n"),
+    });
+  });
+
+  if (format === "vtt" && headerBlocks.length === 0) {
+    headerBlocks.push("WEBVTT");
+  }
+
+  return {
+    format,
+    header: format === "vtt" ? headerBlocks.join("\n\n") : undefined,
+    cues,
+  };
+};
+
+// Cue texts can't contain blank lines, so a blank line unambiguously
+// separates cues in a message's text and its translations
+export const CUE_SEPARATOR = "\n\n";
+
+export const joinCueTexts = (texts: string[]) =>
+  texts.map((text) => text.replace(/\n\s*\n/g, "\n")).join(CUE_SEPARATOR);
+
+export const splitCueTexts = (text: string) => text.split(CUE_SEPARATOR);
+
+// Writes the track back out, optionally with translated cue texts in place of
+// the originals. Indices, identifiers, timestamps and VTT settings are kept.
+export const formatSubtitles = (track: SubtitleTrack, texts?: string[]) => {
+  const cues = track.cues.map((cue, index) => {
+    const timing = [cue.start, "-->", cue.end, cue.settings]
+      .filter(Boolean)
+      .join(" ");
+    const id = track.format === "srt" ? cue.id ?? String(index + 1) : cue.id;
+    return [id, timing, texts?.[index] ?? cue.text]
+      .filter((line) => line !== undefined)
+      .join("\n");
+  });
+
+  const blocks =
+    track.format === "vtt" ? [track.header ?? "WEBVTT", ...cues] : cues;
+  return blocks.join("\n\n") + "\n";
+};
+
+const mimeTypes: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+// Downloads a translation of the track as "<name>.<language>.<format>"
+export const downloadSubtitles = (
+  t: Translate,
+  track: SubtitleTrack,
+  translation: string,
+  language: string
+) => {
+  const texts = splitCueTexts(translation);
+  if (texts.length !== track.cues.length) {
+    throw new Error(
+      t("subtitles.cueMismatch", {
+        translated: texts.length,
+        original: track.cues.length,
+      })
+    );
+  }
+  const baseName = (track.name ?? "subtitles").replace(/\.(srt|vtt)$/i, "");
+  downloadFile(
+    `${baseName}.${language}.${track.format}`,
+    formatSubtitles(track, texts),
+    mimeTypes[track.format]
+  );
+};
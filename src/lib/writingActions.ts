@@ -0,0 +1,35 @@
+import type { RewriteStyle } from "./ai";
+import type { LocalizedText, MessageKey } from "./i18n";
+import type { GeneratedText } from "../types";
+
+export type GenerateRequest = Pick<GeneratedText, "kind" | "question">;
+
+export const rewriteStyles: { value: RewriteStyle; label: MessageKey }[] = [
+  { value: "more-formal", label: "rewrite.more-formal" },
+  { value: "more-casual", label: "rewrite.more-casual" },
+  { value: "shorter", label: "rewrite.shorter" },
+];
+
+// Task given to the Writer API for "Draft a reply"
+export const REPLY_TASK = "Draft a reply to this message.";
+
+// One result per rewrite style and one reply; answers are kept per question
+export const generatedKey = ({ kind, question }: GenerateRequest) =>
+  kind === "answer" ? `answer:${question?.trim().toLowerCase()}` : kind;
+
+export const describeGenerated = ({
+  kind,
+  question,
+}: GenerateRequest): LocalizedText => {
+  if (kind === "reply") return { key: "generated.reply" };
+  if (kind === "answer") {
+    return {
+      key: "generated.answer",
+      params: { question: question?.trim() ?? "" },
+    };
+  }
+  return {
+    key: "generated.rewrite",
+    params: { style: { key: `rewrite.${kind}` } },
+  };
+};
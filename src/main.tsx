@@ -2,9 +2,28 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/serviceWorker'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
+// `?mock=1` swaps Chrome's built-in AI for a deterministic fake in development
+const mockAI =
+  import.meta.env.DEV &&
+  new URLSearchParams(window.location.search).get('mock') === '1'
+    ? import('./lib/ai/mock').then(({ installMockAI }) => {
+        installMockAI({
+          delay: 400,
+          downloadSteps: 5,
+          availability: { summarizer: 'after-download' },
+        })
+      })
+    : Promise.resolve()
+
+// Only production builds, so the dev server never serves a cached bundle
+if (import.meta.env.PROD) registerServiceWorker()
+
+mockAI.then(() =>
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  ),
 )
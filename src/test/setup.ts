@@ -0,0 +1,20 @@
+import "@testing-library/jest-dom/vitest";
+import "fake-indexeddb/auto";
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+import {
+  deleteConversation,
+  listConversations,
+} from "../lib/storage/conversations";
+import { clearMemory } from "../lib/storage/memory";
+
+afterEach(async () => {
+  cleanup();
+  localStorage.clear();
+  const conversations = await listConversations();
+  await Promise.all(conversations.map(({ id }) => deleteConversation(id)));
+  await clearMemory();
+});
+
+// jsdom doesn't implement scrolling
+Element.prototype.scrollIntoView = () => {};
@@ -0,0 +1,94 @@
+import type {
+  AIErrorKind,
+  ChunkProgress,
+  DetectedLanguage,
+  RewriteStyle,
+  SummarizeOptions,
+} from "./lib/ai";
+import type { LocalizedText } from "./lib/i18n";
+import type { TranslationMatch } from "./lib/memory";
+import type { SubtitleTrack } from "./lib/subtitles";
+
+export interface Summary {
+  options: SummarizeOptions;
+  text: string;
+  // Language the summary is written in, when known
+  language?: string;
+  // Similarity of the remembered text, when the summary came from memory
+  memoryMatch?: number;
+}
+
+// Output of the Rewriter, Writer and Prompt API actions on a message
+export interface GeneratedText {
+  kind: RewriteStyle | "reply" | "answer";
+  // The question asked, for answers
+  question?: string;
+  text: string;
+}
+
+// One row of the side-by-side view: a source sentence (or a few) and its
+// translation, both with their trailing whitespace
+export interface AlignedSentence {
+  source: string;
+  translation: string;
+  edited?: boolean;
+  reviewed?: boolean;
+}
+
+export interface Message {
+  id: string;
+  text: string;
+  // Source language used for translation: the top detection unless the
+  // user picked another one
+  language: string | null;
+  detectedLanguages?: DetectedLanguage[];
+  languageOverridden?: boolean;
+  // File the text was imported from, when it didn't come from the composer
+  source?: string;
+  // Cue timing for messages imported from SRT/VTT. The text and every
+  // translation hold one cue per blank-line separated block, in order.
+  subtitles?: SubtitleTrack;
+  // Keyed by summaryKey(options)
+  summaries: Record<string, Summary>;
+  translations: Record<string, string>;
+  // How each translation that came from memory matched, by language
+  translationMatches?: Record<string, TranslationMatch>;
+  // Rewrites, draft replies and answers, keyed by generatedKey()
+  generated?: Record<string, GeneratedText>;
+  // Sentence alignments keyed by language, stored once a reviewer edits or
+  // marks a sentence. The translations join back into `translations`.
+  alignments?: Record<string, AlignedSentence[]>;
+}
+
+// A detection, summary or translation that isn't finished yet, keyed by
+// operation, e.g. "translation:<messageId>:<language>"
+export interface OperationStatus {
+  // "waiting" while another request downloads the model
+  state: "queued" | "waiting" | "running";
+  // Chunk progress for long inputs
+  progress?: ChunkProgress & { label: string };
+}
+
+export interface OperationError {
+  id: string;
+  // What failed, e.g. "Translation to Spanish"
+  title: LocalizedText;
+  kind: AIErrorKind;
+  // Backends' own messages are kept as they came
+  message: LocalizedText | string;
+  time: number;
+  // Set when the failure belongs to one message's detection, summary or
+  // translation, keyed like the operation's status
+  operation?: string;
+  messageId?: string;
+  retry?: () => void;
+}
+
+export interface Conversation {
+  id: string;
+  // Empty until the user names it or the first message is sent
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+}
@@ -1,9 +1,37 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
+// Writes precache-manifest.js, listing the hashed files of this build for
+// public/sw.js to cache on install. The version changes with the files, so a
+// new release installs a fresh cache.
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_, bundle) {
+    const assets = Object.keys(bundle)
+      .filter((fileName) => !fileName.endsWith(".map"))
+      .sort()
+      .map((fileName) => `/${fileName}`);
+    let hash = 0;
+    for (const char of assets.join()) {
+      hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    const version = (hash >>> 0).toString(36);
+    this.emitFile({
+      type: "asset",
+      fileName: "precache-manifest.js",
+      source: `self.PRECACHE = ${JSON.stringify({ version, assets })};\n`,
+    });
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheManifest()],
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 });
-